@@ -1,22 +1,53 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { GardenScene } from './components/GardenScene';
 import { TuningPanel } from './components/UI/TuningPanel';
-import { AppMode, InteractionType } from './types';
+import { MixerDrawer } from './components/UI/MixerDrawer';
+import { CalibrationStep } from './components/UI/CalibrationStep';
+import { OctaveCheckStep } from './components/UI/OctaveCheckStep';
+import { SessionDrawer } from './components/UI/SessionDrawer';
+import { ProfileMenu } from './components/UI/ProfileMenu';
+import { PresetList } from './components/UI/PresetList';
+import { BackupPanel } from './components/UI/BackupPanel';
+import { ExportPanel } from './components/UI/ExportPanel';
+import { SeedControl } from './components/UI/SeedControl';
+import { DiagnosticsPanel } from './components/UI/DiagnosticsPanel';
+import { LayerImportPanel } from './components/UI/LayerImportPanel';
+import { PianoControls } from './components/UI/PianoControls';
+import { DroneControls } from './components/UI/DroneControls';
+import { AppMode, DroneSettings, DuckingRule, Ear, EarMatches, GardenSpace, LayerId, MixerChannelId, MixerSettings, NotchWidth, PianoSettings, PitchPolicies, PitchPolicy, Preset, Profile, ProfileMix, ToneCharacter, TuningStep, UserLayer, UserLayerId } from './types';
 import { audioEngine } from './services/AudioEngine';
-
-// --- Preset Definitions ---
-type Preset = {
-  id: string;
-  name: string;
-  sounds: InteractionType[];
-};
-
-const PRESETS: Preset[] = [
-  { id: 'forest', name: 'Quiet Forest', sounds: ['BIRD', 'LEAVES', 'INSECT'] },
-  { id: 'rain', name: 'Rainy Shelter', sounds: ['RAIN', 'WATER', 'WIND'] },
-  { id: 'ocean', name: 'Ocean Breeze', sounds: ['WATER', 'WIND', 'BIRD'] },
-  { id: 'night', name: 'Summer Night', sounds: ['INSECT', 'WIND'] },
-];
+import { channelSettings, createDefaultMixerSettings } from './services/Mixer';
+import { loadDuckingRules, saveDuckingRules } from './services/Ducking';
+import { EARS, combineEarFrequencies, createDefaultEarMatches } from './services/EarStage';
+import { DEFAULT_TONE_DB, dbToGain, masterLevelForMml } from './services/levels';
+import { formatFrequency } from './services/frequency';
+import { DEFAULT_TONE_CHARACTER, matchedBandwidth } from './services/MatchingTone';
+import {
+  DEFAULT_PREFERENCES,
+  createFirstProfile,
+  createProfile,
+  deleteProfile,
+  deleteUserLayer,
+  loadActiveProfileId,
+  loadProfiles,
+  loadUserLayers,
+  saveActiveProfileId,
+  saveProfile,
+  saveUserLayer,
+  withHistoryEntry
+} from './services/ProfileStore';
+import { UserLayerError, importAudioFile, isKnownLayer, userLayerInfo } from './services/UserLayers';
+import { BackupContents } from './services/Backup';
+import { encodeWav, EXPORT_SAMPLE_RATE, trackFileName } from './services/TrackExport';
+import { downloadBlob } from './services/download';
+import { randomSeed } from './services/random';
+import { SoundReport } from './services/SoundLibrary';
+import { DEFAULT_PIANO_SETTINGS } from './services/Piano';
+import { DEFAULT_DRONE_SETTINGS } from './services/Drone';
+import { DEFAULT_SPACE } from './services/Reverb';
+import { CEILING_WARNING_SECONDS, DEFAULT_OUTPUT_CEILING_DB } from './services/Safety';
+import { DeepLinkError, MixLink, mixLinkUrl, parseMixLink } from './services/DeepLink';
+import { MixState, applyPresetVolumes, createPreset, findActivePreset, loadUserPresets, saveUserPresets } from './services/Presets';
 
 // --- Modal Component ---
 const InfoModal: React.FC<{ 
@@ -29,7 +60,7 @@ const InfoModal: React.FC<{
   return (
     <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-8" onClick={onClose}>
       <div 
-        className="max-w-md w-full bg-[#0a0a0a] border border-neutral-800 p-8 shadow-[0_0_50px_rgba(0,0,0,0.8)] animate-[fadeIn_0.3s_ease-out]" 
+        className="max-w-md w-full max-h-[85vh] overflow-y-auto bg-[#0a0a0a] border border-neutral-800 p-8 shadow-[0_0_50px_rgba(0,0,0,0.8)] animate-[fadeIn_0.3s_ease-out]" 
         onClick={e => e.stopPropagation()}
       >
         <div className="flex justify-between items-start mb-6">
@@ -51,32 +82,117 @@ const InfoModal: React.FC<{
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.INTRO);
-  const [frequency, setFrequency] = useState<number>(4500);
+  // Per-ear match. `frequency` is the combined value for anything that
+  // can't be processed per ear (sample pitch, visuals).
+  const [ears, setEars] = useState<EarMatches>(createDefaultEarMatches);
+  const [tuningEar, setTuningEar] = useState<Ear>('left');
+  const frequency = useMemo(() => combineEarFrequencies(ears), [ears]);
+
+  // Tuning flow: pitch -> loudness match -> minimum masking level (MML)
+  const [tuningStep, setTuningStep] = useState<TuningStep>('PITCH');
+  const [toneLevelDb, setToneLevelDb] = useState<number>(DEFAULT_TONE_DB);
+  const [loudnessDb, setLoudnessDb] = useState<number | null>(null);
+  const [noiseLevelDb, setNoiseLevelDb] = useState<number>(-60);
+  const [isNoisePlaying, setIsNoisePlaying] = useState(false);
+  const [mmlDb, setMmlDb] = useState<number | null>(null);
+  const [masterLevelDb, setMasterLevelDb] = useState<number>(-6);
+  const [outputCeilingDb, setOutputCeilingDb] = useState<number>(DEFAULT_OUTPUT_CEILING_DB);
+  const [normaliseLoudness, setNormaliseLoudness] = useState(true);
+  // Set while the limiter has been holding the mix at the ceiling for a while
+  const [ceilingWarning, setCeilingWarning] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
 
   // Audio State Management
-  const [activeSounds, setActiveSounds] = useState<Set<InteractionType>>(new Set());
+  const [activeSounds, setActiveSounds] = useState<Set<LayerId>>(new Set());
   const stopFns = useRef<Map<string, () => void>>(new Map());
 
   // Harmony State
   const [droneActive, setDroneActive] = useState(false);
   const [pianoActive, setPianoActive] = useState(false);
+  const [pianoSettings, setPianoSettings] = useState<PianoSettings>(DEFAULT_PIANO_SETTINGS);
+  const [droneSettings, setDroneSettings] = useState<DroneSettings>(DEFAULT_DRONE_SETTINGS);
+
+  // Notched Therapy State
+  const [notchActive, setNotchActive] = useState(false);
+  const [notchWidth, setNotchWidth] = useState<NotchWidth>(1);
+
+  // Character of the matched sound (pure tone, noise band, hiss...)
+  const [toneCharacter, setToneCharacter] = useState<ToneCharacter>(DEFAULT_TONE_CHARACTER);
+  const matchedWidth = matchedBandwidth(toneCharacter);
+
+  // Mixer State (levels are saved with the profile)
+  const [mixerSettings, setMixerSettings] = useState<MixerSettings>(createDefaultMixerSettings);
+  const [showMixer, setShowMixer] = useState(false);
+  const [duckingRules, setDuckingRules] = useState<DuckingRule[]>(loadDuckingRules);
+  const [spatialAudio, setSpatialAudio] = useState(true);
+  const [pitchPolicies, setPitchPolicies] = useState<PitchPolicies>({});
+  const [space, setSpace] = useState<GardenSpace>(DEFAULT_SPACE);
+
+  // Drives every generative detail, audio and visual (see services/random)
+  const [seed, setSeed] = useState<number>(randomSeed);
+
+  // Saved soundscapes, shared by all profiles
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+
+  // Session Timer State
+  const [sessionEndsAt, setSessionEndsAt] = useState<number | null>(null);
+  const [sessionFadeSeconds, setSessionFadeSeconds] = useState(60);
+  const [sleepMode, setSleepMode] = useState(false);
+  const [showSession, setShowSession] = useState(false);
+
+  // Profiles (IndexedDB). The app keeps working in memory if storage fails.
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [profilesReady, setProfilesReady] = useState(false);
+  // Last mix of a restored profile, started on the first gesture because
+  // browsers block audio until then
+  const [pendingMix, setPendingMix] = useState<ProfileMix | null>(null);
+  const audioUnlocked = useRef(false);
+  const profilesRef = useRef(profiles);
+  profilesRef.current = profiles;
 
   // UI Modal State
   const [showHelp, setShowHelp] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Shared links: why the last one couldn't be opened, and copy feedback
+  const [linkNotice, setLinkNotice] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Which sound files loaded, for the diagnostics in settings
+  const [soundReport, setSoundReport] = useState<SoundReport[]>([]);
+
+  // Layers imported from the listener's own files, and the import in progress
+  const [userLayers, setUserLayers] = useState<UserLayer[]>([]);
+  const [isImportingLayers, setIsImportingLayers] = useState(false);
+  const [layerImportError, setLayerImportError] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
 
-  // Initialize engine and load the asset file when the app loads
+  // Initialize engine and load the sound library when the app loads
   useEffect(() => {
     const loadAudio = async () => {
-        await audioEngine.loadAmbientTrack();
+        setSoundReport(await audioEngine.loadSounds());
     };
     loadAudio();
   }, []);
 
   // --- Audio Logic ---
 
+  // Before the harmony effects, so voices started together with a new seed use it
+  useEffect(() => {
+    audioEngine.setSeed(seed);
+  }, [seed]);
+
   // Sync Harmony Toggle State with AudioEngine
+  useEffect(() => {
+    audioEngine.setPianoSettings(pianoSettings);
+  }, [pianoSettings]);
+
+  useEffect(() => {
+    audioEngine.setDroneSettings(droneSettings);
+  }, [droneSettings]);
+
   useEffect(() => {
     audioEngine.toggleDrone(droneActive);
   }, [droneActive]);
@@ -85,8 +201,158 @@ const App: React.FC = () => {
     audioEngine.togglePiano(pianoActive);
   }, [pianoActive]);
 
+  useEffect(() => {
+    audioEngine.setMasterLevel(masterLevelDb);
+  }, [masterLevelDb]);
+
+  useEffect(() => {
+    audioEngine.setOutputCeiling(outputCeilingDb);
+  }, [outputCeilingDb]);
+
+  useEffect(() => {
+    audioEngine.setLoudnessNormalise(normaliseLoudness);
+  }, [normaliseLoudness]);
+
+  // Warn when the mix keeps pressing against the ceiling: the limiter is
+  // keeping it safe, but the garden is too loud to sound right
+  useEffect(() => {
+    if (mode !== AppMode.GARDEN) {
+      setCeilingWarning(false);
+      return;
+    }
+    const id = window.setInterval(() => {
+      setCeilingWarning(audioEngine.getSafetyStatus().ceilingHitSeconds >= CEILING_WARNING_SECONDS);
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [mode]);
+
+  useEffect(() => {
+    audioEngine.setMixerSettings(mixerSettings);
+  }, [mixerSettings]);
+
+  useEffect(() => {
+    audioEngine.setDuckingRules(duckingRules);
+    saveDuckingRules(duckingRules);
+  }, [duckingRules]);
+
+  useEffect(() => {
+    audioEngine.setSpatialEnabled(spatialAudio);
+  }, [spatialAudio]);
+
+  useEffect(() => {
+    audioEngine.setPitchPolicies(pitchPolicies);
+  }, [pitchPolicies]);
+
+  useEffect(() => {
+    audioEngine.setSpace(space);
+  }, [space]);
+
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  const getChannelLevel = useCallback((id: MixerChannelId) => audioEngine.getChannelLevel(id), []);
+
+  // Notch follows the matched frequency live, including while retuning
+  useEffect(() => {
+    audioEngine.setNotchEnabled(notchActive);
+  }, [notchActive]);
+
+  useEffect(() => {
+    audioEngine.setNotchWidth(notchWidth);
+  }, [notchWidth]);
+
+  useEffect(() => {
+    audioEngine.setEarMatches(ears);
+  }, [ears]);
+
+  useEffect(() => {
+    audioEngine.setToneCharacter(toneCharacter);
+  }, [toneCharacter]);
+
+
+  const stopAllLayers = () => {
+    // Stop Presets
+    stopFns.current.forEach(stop => stop());
+    stopFns.current.clear();
+    setActiveSounds(new Set());
+
+    // Stop Harmony
+    setDroneActive(false);
+    setPianoActive(false);
+  };
+
+  // Session timer: fade everything out over the fade time, then stop every
+  // source so nothing (including the piano scheduler) keeps running
+  const stopAllRef = useRef(stopAllLayers);
+  stopAllRef.current = stopAllLayers;
+
+  useEffect(() => {
+    if (sessionEndsAt === null) return;
+    const remaining = sessionEndsAt - Date.now();
+    const fadeMs = Math.min(sessionFadeSeconds * 1000, remaining);
+
+    const fadeTimer = window.setTimeout(() => {
+      audioEngine.fadeOutSession(fadeMs / 1000);
+    }, remaining - fadeMs);
+
+    const endTimer = window.setTimeout(() => {
+      stopAllRef.current();
+      setSessionEndsAt(null);
+    }, remaining);
+
+    return () => {
+      window.clearTimeout(fadeTimer);
+      window.clearTimeout(endTimer);
+    };
+  }, [sessionEndsAt]);
+
+  // Restore the level once the session is over or cancelled. Waits out the
+  // layers' own stop fades so they don't come back up before going silent.
+  useEffect(() => {
+    if (sessionEndsAt !== null) return;
+    const id = window.setTimeout(() => audioEngine.resetSessionFade(), 2000);
+    return () => window.clearTimeout(id);
+  }, [sessionEndsAt]);
+
+  const startSession = (minutes: number) => {
+    setSessionEndsAt(Date.now() + minutes * 60 * 1000);
+  };
+
+  const cancelSession = () => {
+    setSessionEndsAt(null);
+    audioEngine.resetSessionFade();
+  };
+
+  // Starts a layer and registers its stop function
+  const startLayer = (type: LayerId) => {
+    const stop = audioEngine.playInteractionSound(type, frequency, () => {
+        // Callback when sound ends naturally (e.g. non-looping). A layer
+        // restarted since then has a new stop function and stays active.
+        if (stopFns.current.get(type) !== stop) return;
+        setActiveSounds(current => {
+            const updated = new Set(current);
+            updated.delete(type);
+            stopFns.current.delete(type);
+            return updated;
+        });
+    });
+    stopFns.current.set(type, stop);
+  };
+
+  // A playing layer restarts so the new policy is heard straight away
+  const setLayerPitchPolicy = (id: LayerId, policy: PitchPolicy) => {
+    const next = { ...pitchPolicies, [id]: policy };
+    audioEngine.setPitchPolicies(next);
+    setPitchPolicies(next);
+    const stop = stopFns.current.get(id);
+    if (stop) {
+      stop();
+      startLayer(id);
+    }
+  };
 
-  const toggleSound = (type: InteractionType) => {
+  const toggleSound = (type: LayerId) => {
     setActiveSounds(prev => {
       const next = new Set(prev);
       
@@ -98,16 +364,7 @@ const App: React.FC = () => {
         next.delete(type);
       } else {
         // START LOGIC
-        const stop = audioEngine.playInteractionSound(type, frequency, () => {
-            // Callback when sound ends naturally (e.g. non-looping)
-            setActiveSounds(current => {
-                const updated = new Set(current);
-                updated.delete(type);
-                stopFns.current.delete(type);
-                return updated;
-            });
-        });
-        stopFns.current.set(type, stop);
+        startLayer(type);
         next.add(type);
       }
       return next;
@@ -115,9 +372,24 @@ const App: React.FC = () => {
   };
 
   const applyPreset = (preset: Preset) => {
+    // Pitch policies first: they apply to the layers started below
+    if (preset.pitchPolicies) {
+      const next = { ...pitchPolicies, ...preset.pitchPolicies };
+      audioEngine.setPitchPolicies(next);
+      setPitchPolicies(next);
+    }
+    if (preset.space !== undefined) setSpace(preset.space);
+    if (preset.seed !== undefined) {
+      audioEngine.setSeed(preset.seed);
+      setSeed(preset.seed);
+    }
+
+    // Imported layers removed since the preset was saved are skipped
+    const sounds = preset.sounds.filter(sound => isKnownLayer(sound, userLayers));
+
     // 1. Identify sounds to stop (active but not in preset)
     activeSounds.forEach(sound => {
-        if (!preset.sounds.includes(sound)) {
+        if (!sounds.includes(sound)) {
              const stop = stopFns.current.get(sound);
              if (stop) stop();
              stopFns.current.delete(sound);
@@ -125,68 +397,547 @@ const App: React.FC = () => {
     });
 
     // 2. Identify sounds to start (in preset but not active)
-    const newActiveSet = new Set<InteractionType>();
+    const newActiveSet = new Set<LayerId>();
     
     // First, keep existing ones that are in the preset
     activeSounds.forEach(sound => {
-        if (preset.sounds.includes(sound)) {
+        if (sounds.includes(sound)) {
             newActiveSet.add(sound);
         }
     });
 
     // Then start new ones
-    preset.sounds.forEach(sound => {
+    sounds.forEach(sound => {
         if (!activeSounds.has(sound)) {
-            const stop = audioEngine.playInteractionSound(sound, frequency, () => {
-                setActiveSounds(current => {
-                    const updated = new Set(current);
-                    updated.delete(sound);
-                    stopFns.current.delete(sound);
-                    return updated;
-                });
-            });
-            stopFns.current.set(sound, stop);
+            startLayer(sound);
             newActiveSet.add(sound);
         }
     });
 
     setActiveSounds(newActiveSet);
+
+    // Saved presets also restore levels, harmony, pitch policy and ducking
+    setMixerSettings(prev => applyPresetVolumes(prev, preset));
+    if (preset.droneActive !== undefined) setDroneActive(preset.droneActive);
+    if (preset.pianoActive !== undefined) setPianoActive(preset.pianoActive);
+    if (preset.duckingRules) setDuckingRules(preset.duckingRules);
+  };
+
+  const saveCurrentAsPreset = (name: string) => {
+    setUserPresets(prev => [...prev, createPreset(name, currentMix)]);
   };
 
   const handleStart = () => {
+    setLinkNotice(null);
     audioEngine.init();
+    audioUnlocked.current = true;
     setMode(AppMode.TUNING);
   };
 
+  // --- Profiles ---
+
+  // Current settings folded into a profile. The match itself is only
+  // written when tuning is confirmed (see recordMatch).
+  const snapshotProfile = (profile: Profile): Profile => ({
+    ...profile,
+    lastMix: pendingMix ?? {
+      sounds: Array.from(activeSounds),
+      droneActive,
+      pianoActive,
+      mixer: mixerSettings,
+    },
+    preferences: {
+      masterLevelDb,
+      outputCeilingDb,
+      normaliseLoudness,
+      notchActive,
+      notchWidth,
+      spatialAudio,
+      pitchPolicies,
+      piano: pianoSettings,
+      drone: droneSettings,
+      space,
+      sessionFadeSeconds,
+      sleepMode,
+    },
+  });
+
+  const updateProfile = (id: string, update: (profile: Profile) => Profile) => {
+    const current = profilesRef.current.find(p => p.id === id);
+    if (!current) return;
+    const next = update(current);
+    setProfiles(prev => prev.map(p => (p.id === id ? next : p)));
+    saveProfile(next).catch(e => console.warn('[Profiles] Could not save profile.', e));
+  };
+
+  const applyProfile = (profile: Profile) => {
+    const prefs = { ...DEFAULT_PREFERENCES, ...profile.preferences };
+    setEars(profile.ears);
+    setToneCharacter(profile.toneCharacter);
+    setLoudnessDb(profile.loudnessDb);
+    setMmlDb(profile.mmlDb);
+    if (profile.loudnessDb !== null) setToneLevelDb(profile.loudnessDb);
+    if (profile.mmlDb !== null) setNoiseLevelDb(profile.mmlDb);
+    setMixerSettings(profile.lastMix.mixer);
+    setMasterLevelDb(prefs.masterLevelDb);
+    setOutputCeilingDb(prefs.outputCeilingDb);
+    setNormaliseLoudness(prefs.normaliseLoudness);
+    setNotchActive(prefs.notchActive);
+    setNotchWidth(prefs.notchWidth);
+    setSpatialAudio(prefs.spatialAudio);
+    setSpace(prefs.space);
+    setPitchPolicies(prefs.pitchPolicies);
+    setPianoSettings({ ...DEFAULT_PIANO_SETTINGS, ...prefs.piano });
+    setDroneSettings({ ...DEFAULT_DRONE_SETTINGS, ...prefs.drone });
+    setSessionFadeSeconds(prefs.sessionFadeSeconds);
+    setSleepMode(prefs.sleepMode);
+    setTuningStep('PITCH');
+
+    // A confirmed frequency goes straight to the garden
+    const mix = profile.lastMix;
+    const hasMix = mix.sounds.length > 0 || mix.droneActive || mix.pianoActive;
+    setPendingMix(profile.confirmed && hasMix ? mix : null);
+    setMode(profile.confirmed ? AppMode.GARDEN : AppMode.INTRO);
+  };
+
+  // Load profiles once. The very first run creates a default profile.
+  // Strict mode mounts effects twice; the ref keeps it to a single load,
+  // so a fresh install doesn't get two first profiles.
+  const loadStarted = useRef(false);
+  useEffect(() => {
+    if (loadStarted.current) return;
+    loadStarted.current = true;
+    const load = async () => {
+      // Imported layers first, so a restored mix can start them
+      try {
+        const stored = await loadUserLayers();
+        stored.forEach(layer => audioEngine.addUserLayer(layer));
+        setUserLayers(stored.map(userLayerInfo));
+      } catch (e) {
+        console.warn('[Layers] Could not load imported layers.', e);
+      }
+
+      let baseMixer = createDefaultMixerSettings();
+      try {
+        let list = await loadProfiles();
+        if (list.length === 0) {
+          const first = createFirstProfile('My Garden');
+          await saveProfile(first);
+          list = [first];
+        }
+        const storedId = await loadActiveProfileId();
+        const active = list.find(p => p.id === storedId) ?? list[0];
+        setProfiles(list);
+        setActiveProfileId(active.id);
+        applyProfile(active);
+        baseMixer = active.lastMix.mixer;
+      } catch (e) {
+        console.warn('[Profiles] Storage unavailable, profiles will not be saved.', e);
+      }
+      // A shared link takes over from the profile's own garden
+      openMixLink(baseMixer);
+      setProfilesReady(true);
+    };
+    load();
+  }, []);
+
+  // Save the mix and preferences shortly after they change
+  useEffect(() => {
+    if (!profilesReady || !activeProfileId) return;
+    const id = window.setTimeout(() => updateProfile(activeProfileId, snapshotProfile), 500);
+    return () => window.clearTimeout(id);
+  }, [profilesReady, activeProfileId, pendingMix, activeSounds, droneActive, pianoActive, mixerSettings,
+      masterLevelDb, outputCeilingDb, normaliseLoudness, notchActive, notchWidth, spatialAudio, pitchPolicies, pianoSettings, droneSettings, space, sessionFadeSeconds, sleepMode]);
+
+  // Start a restored mix once audio is allowed to play
+  useEffect(() => {
+    if (!pendingMix || mode !== AppMode.GARDEN) return;
+    const resume = () => {
+      audioEngine.init();
+      audioUnlocked.current = true;
+      const sounds = pendingMix.sounds.filter(sound => isKnownLayer(sound, userLayers));
+      sounds.forEach(startLayer);
+      setActiveSounds(new Set(sounds));
+      setDroneActive(pendingMix.droneActive);
+      setPianoActive(pendingMix.pianoActive);
+      setPendingMix(null);
+    };
+    if (audioUnlocked.current) {
+      resume();
+      return;
+    }
+    window.addEventListener('pointerdown', resume, { once: true });
+    window.addEventListener('keydown', resume, { once: true });
+    return () => {
+      window.removeEventListener('pointerdown', resume);
+      window.removeEventListener('keydown', resume);
+    };
+  }, [pendingMix, mode]);
+
+  // --- Shared links ---
+
+  // Opens the mix in the URL fragment, if there is one. The fragment is
+  // cleared afterwards so a reload returns to the profile's own garden.
+  const openMixLink = (baseMixer: MixerSettings = mixerSettings) => {
+    const hash = window.location.hash;
+    if (!hash) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+    let link: MixLink | null;
+    try {
+      link = parseMixLink(hash);
+    } catch (e) {
+      setLinkNotice(e instanceof DeepLinkError ? e.message : 'The link could not be read.');
+      setPendingMix(null);
+      setMode(AppMode.INTRO);
+      return;
+    }
+    if (!link) return;
+
+    stopTone();
+    stopNoise();
+    stopAllLayers();
+    setSessionEndsAt(null);
+    setLinkNotice(null);
+
+    // The link's frequency stands in for the match; it is not recorded
+    // in the profile unless the listener retunes and confirms it
+    const { frequency: linkFrequency } = link;
+    setEars(prev => {
+      const anyAffected = EARS.some(ear => prev[ear].affected);
+      return {
+        left: { ...prev.left, frequency: linkFrequency, affected: anyAffected ? prev.left.affected : true },
+        right: { ...prev.right, frequency: linkFrequency, affected: anyAffected ? prev.right.affected : true },
+      };
+    });
+
+    const mixer = { ...baseMixer };
+    (Object.keys(link.volumes) as MixerChannelId[]).forEach(id => {
+      mixer[id] = { ...mixer[id], gain: link.volumes[id]! };
+    });
+    setMixerSettings(mixer);
+    if (link.seed !== undefined) setSeed(link.seed);
+    setPendingMix({ sounds: link.sounds, droneActive: link.droneActive, pianoActive: link.pianoActive, mixer });
+    setMode(AppMode.GARDEN);
+  };
+
+  // Links pasted into an open tab only change the fragment
+  const openMixLinkRef = useRef(openMixLink);
+  openMixLinkRef.current = openMixLink;
+
+  useEffect(() => {
+    const onHashChange = () => openMixLinkRef.current();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const copyMixLink = async () => {
+    const volumes: Partial<Record<MixerChannelId, number>> = {};
+    const channels: MixerChannelId[] = Array.from(activeSounds);
+    if (droneActive) channels.push('DRONE');
+    if (pianoActive) channels.push('PIANO');
+    channels.forEach(id => { volumes[id] = channelSettings(mixerSettings, id).gain; });
+
+    const url = mixLinkUrl({ frequency, sounds: Array.from(activeSounds), droneActive, pianoActive, volumes, seed });
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      console.warn('[Links] Could not copy the link.', e);
+      window.prompt('Copy this link:', url);
+    }
+  };
+
+  // Completing the tuning flow confirms the match and adds it to the history
+  const recordMatch = (confirmedMmlDb: number | null) => {
+    if (!activeProfileId) return;
+    updateProfile(activeProfileId, profile => ({
+      ...withHistoryEntry(profile, { date: Date.now(), ears, loudnessDb, mmlDb: confirmedMmlDb }),
+      toneCharacter,
+    }));
+  };
+
+  const selectProfile = (id: string) => {
+    const next = profilesRef.current.find(p => p.id === id);
+    if (!next || id === activeProfileId) return;
+    if (activeProfileId) updateProfile(activeProfileId, snapshotProfile);
+    stopTone();
+    stopNoise();
+    stopAllLayers();
+    setSessionEndsAt(null);
+    setActiveProfileId(id);
+    saveActiveProfileId(id).catch(e => console.warn('[Profiles] Could not save active profile.', e));
+    applyProfile(next);
+  };
+
+  const addProfile = (name: string) => {
+    const profile = createProfile(name);
+    setProfiles(prev => [...prev, profile]);
+    profilesRef.current = [...profilesRef.current, profile];
+    saveProfile(profile).catch(e => console.warn('[Profiles] Could not save profile.', e));
+    selectProfile(profile.id);
+  };
+
+  const renameProfile = (id: string, name: string) => {
+    updateProfile(id, profile => ({ ...profile, name }));
+  };
+
+  const removeProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || profiles.length <= 1) return;
+    if (!window.confirm(`Delete the profile "${profile.name}" and its history?`)) return;
+    if (id === activeProfileId) {
+      selectProfile(profiles.find(p => p.id !== id)!.id);
+    }
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    deleteProfile(id).catch(e => console.warn('[Profiles] Could not delete profile.', e));
+  };
+
+  // Imported profiles and presets replace ones with the same id and are
+  // added otherwise; ducking rules replace the current matrix
+  const importBackup = (contents: BackupContents) => {
+    if (contents.profiles) {
+      const byId = new Map(profilesRef.current.map(p => [p.id, p]));
+      contents.profiles.forEach(profile => {
+        byId.set(profile.id, profile);
+        saveProfile(profile).catch(e => console.warn('[Profiles] Could not save profile.', e));
+      });
+      const next = Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt);
+      profilesRef.current = next;
+      setProfiles(next);
+
+      const active = contents.profiles.find(p => p.id === activeProfileId);
+      if (active) {
+        stopTone();
+        stopNoise();
+        stopAllLayers();
+        setSessionEndsAt(null);
+        applyProfile(active);
+      }
+    }
+    if (contents.presets) {
+      const imported = contents.presets;
+      setUserPresets(prev => [
+        ...prev.map(p => imported.find(i => i.id === p.id) ?? p),
+        ...imported.filter(i => !prev.some(p => p.id === i.id)),
+      ]);
+    }
+    if (contents.duckingRules) setDuckingRules(contents.duckingRules);
+  };
+
+  // --- Imported layers ---
+
+  // Decodes, trims and loops each file, then keeps it with the other layers.
+  // Files are handled one at a time; a bad one doesn't stop the rest.
+  const importLayerFiles = async (files: File[]) => {
+    setLayerImportError(null);
+    setIsImportingLayers(true);
+    let layers = userLayers;
+    for (const file of files) {
+      try {
+        const layer = await importAudioFile(file, data => audioEngine.decodeAudio(data), layers);
+        audioEngine.addUserLayer(layer);
+        layers = [...layers, userLayerInfo(layer)];
+        setUserLayers(layers);
+        saveUserLayer(layer).catch(e => console.warn('[Layers] Could not save imported layer.', e));
+      } catch (e) {
+        if (!(e instanceof UserLayerError)) console.warn('[Layers] Import failed.', e);
+        setLayerImportError(e instanceof UserLayerError ? e.message : `"${file.name}" could not be imported.`);
+      }
+    }
+    setIsImportingLayers(false);
+  };
+
+  const removeUserLayer = (id: UserLayerId) => {
+    const layer = userLayers.find(l => l.id === id);
+    if (!layer || !window.confirm(`Remove "${layer.name}" from the garden?`)) return;
+    stopFns.current.get(id)?.();
+    stopFns.current.delete(id);
+    setActiveSounds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    audioEngine.removeUserLayer(id);
+    setUserLayers(prev => prev.filter(l => l.id !== id));
+    setMixerSettings(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest as MixerSettings;
+    });
+    setDuckingRules(prev => prev.filter(rule => rule.source !== id && rule.target !== id));
+    deleteUserLayer(id).catch(e => console.warn('[Layers] Could not delete imported layer.', e));
+  };
+
+  // Audio files dropped anywhere on the garden become layers
+  const importLayerFilesRef = useRef(importLayerFiles);
+  importLayerFilesRef.current = importLayerFiles;
+
+  useEffect(() => {
+    if (mode !== AppMode.GARDEN) return;
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+    const onDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDraggingFiles(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (e.relatedTarget === null) setIsDraggingFiles(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      const files = Array.from(e.dataTransfer!.files);
+      if (files.length > 0) importLayerFilesRef.current(files);
+    };
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('drop', onDrop);
+      setIsDraggingFiles(false);
+    };
+  }, [mode]);
+
+  // Renders the current mix offline and downloads it as a looping WAV
+  const exportTrack = async (durationSeconds: number) => {
+    const channels = await audioEngine.renderTrack({
+      durationSeconds,
+      seed,
+      frequency,
+      sounds: Array.from(activeSounds),
+      droneActive,
+      pianoActive,
+    });
+    downloadBlob(encodeWav(channels, EXPORT_SAMPLE_RATE), trackFileName(frequency, seed, durationSeconds));
+  };
+
+  // Loudness is matched in one ear: the selected one if it rings, else the other
+  const loudnessEar: Ear = ears[tuningEar].affected ? tuningEar : (EARS.find(e => ears[e].affected) ?? tuningEar);
+  const toneEar = tuningStep === 'LOUDNESS' ? loudnessEar : tuningEar;
+  const toneFrequency = ears[toneEar].frequency;
+
   const toggleTinnitusTone = () => {
     if (isPlaying) {
       audioEngine.stopTinnitusTone();
     } else {
-      audioEngine.startTinnitusTone(frequency, 0.1);
+      audioEngine.startTinnitusTone(toneFrequency, dbToGain(toneLevelDb), toneEar);
     }
     setIsPlaying(!isPlaying);
   };
 
-  const handleConfirmFrequency = () => {
-    audioEngine.stopTinnitusTone();
+  const stopTone = () => {
+    if (isPlaying) audioEngine.stopTinnitusTone();
     setIsPlaying(false);
+  };
+
+  const toggleMaskingNoise = () => {
+    if (isNoisePlaying) {
+      audioEngine.stopMaskingNoise();
+    } else {
+      audioEngine.startMaskingNoise(noiseLevelDb);
+    }
+    setIsNoisePlaying(!isNoisePlaying);
+  };
+
+  const stopNoise = () => {
+    if (isNoisePlaying) audioEngine.stopMaskingNoise();
+    setIsNoisePlaying(false);
+  };
+
+  const setTuningFrequency = (value: number) => {
+    // A new pick hasn't been octave-checked yet
+    setEars(prev => ({ ...prev, [tuningEar]: { ...prev[tuningEar], frequency: value, confidence: null } }));
+  };
+
+  const playOctaveSequence = (frequencies: number[]): (() => void) => {
+    stopTone();
+    return audioEngine.playToneSequence(frequencies, dbToGain(toneLevelDb), tuningEar);
+  };
+
+  const handleOctaveResult = (value: number, confidence: number) => {
+    setEars(prev => ({ ...prev, [tuningEar]: { ...prev[tuningEar], frequency: value, confidence } }));
+    setTuningStep('PITCH');
+  };
+
+  const setEarAffected = (ear: Ear, affected: boolean) => {
+    setEars(prev => ({ ...prev, [ear]: { ...prev[ear], affected } }));
+    // Nothing to match in an ear without ringing
+    if (!affected && ear === tuningEar && isPlaying) {
+      audioEngine.stopTinnitusTone();
+      setIsPlaying(false);
+    }
+  };
+
+  const enterGarden = (confirmedMmlDb: number | null = mmlDb) => {
+    stopTone();
+    stopNoise();
     audioEngine.startAmbientTrack(frequency);
+    recordMatch(confirmedMmlDb);
     setMode(AppMode.GARDEN);
   };
 
+  const goToTuningStep = (step: TuningStep) => {
+    stopTone();
+    stopNoise();
+    setTuningStep(step);
+  };
+
+  const handleConfirmLoudness = () => {
+    setLoudnessDb(toneLevelDb);
+    goToTuningStep('MML');
+  };
+
+  // The garden defaults to just below the minimum masking level
+  const handleConfirmMml = () => {
+    setMmlDb(noiseLevelDb);
+    setMasterLevelDb(masterLevelForMml(noiseLevelDb));
+    enterGarden(noiseLevelDb);
+  };
+
+  const handleRetune = () => {
+    setTuningStep('PITCH');
+    setMode(AppMode.TUNING);
+  };
+
   useEffect(() => {
     if (isPlaying) {
-      audioEngine.updateTinnitusFreq(frequency);
+      audioEngine.updateTinnitusFreq(toneFrequency);
+      audioEngine.setTinnitusEar(toneEar);
+      audioEngine.setTinnitusLevel(toneLevelDb);
     }
-  }, [frequency, isPlaying]);
+  }, [toneFrequency, toneEar, toneLevelDb, isPlaying]);
 
-  // --- Helper to check if current active sounds match a preset exactly ---
-  const activePresetId = PRESETS.find(p => {
-      if (p.sounds.length !== activeSounds.size) return false;
-      return p.sounds.every(s => activeSounds.has(s));
-  })?.id;
+  useEffect(() => {
+    if (isNoisePlaying) {
+      audioEngine.setMaskingNoiseLevel(noiseLevelDb);
+    }
+  }, [noiseLevelDb, isNoisePlaying]);
 
-  const isModalOpen = showHelp || showAbout;
+  // --- Preset matching: sounds, and for saved presets levels and harmony too ---
+  const currentMix: MixState = {
+    sounds: activeSounds,
+    mixer: mixerSettings,
+    droneActive,
+    pianoActive,
+    pitchPolicies,
+    space,
+    duckingRules,
+    seed,
+  };
+  const activePresetId = findActivePreset(userPresets, currentMix)?.id;
+
+  const activeChannels = useMemo(() => {
+      const channels = new Set<MixerChannelId>(activeSounds);
+      if (droneActive) channels.add('DRONE');
+      if (pianoActive) channels.add('PIANO');
+      return channels;
+  }, [activeSounds, droneActive, pianoActive]);
+
+  const isModalOpen = showHelp || showAbout || showSettings;
 
   return (
     <div className="w-full h-screen relative bg-[#050505] text-neutral-200 overflow-hidden">
@@ -198,43 +949,125 @@ const App: React.FC = () => {
             mode={mode} 
             activeSounds={activeSounds}
             onToggleSound={toggleSound}
+            userLayers={userLayers}
             isModalOpen={isModalOpen}
+            sleepMode={sleepMode}
+            seed={seed}
         />
       </div>
 
       {/* Intro Screen */}
       {mode === AppMode.INTRO && (
         <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black">
-          <div className="max-w-2xl text-center space-y-8 px-8 animate-fade-in">
-            <h1 className="text-4xl md:text-6xl font-serif tracking-[0.2em] text-neutral-100">
-              Resonance Garden
-            </h1>
-            <div className="h-px w-24 bg-neutral-800 mx-auto"></div>
-            <p className="text-neutral-500 font-light leading-relaxed text-sm md:text-base max-w-lg mx-auto">
-              A visual landscape constructed from sound. <br/><br/>
-              By matching your internal frequency, we transpose nature into a spectrum you can inhabit comfortably.
-            </p>
-            <button 
-              onClick={handleStart}
-              className="mt-12 px-10 py-3 border border-neutral-800 text-neutral-400 hover:text-white hover:border-neutral-500 transition-all duration-700 uppercase tracking-[0.3em] text-xs"
-            >
-              Begin Experience
-            </button>
-          </div>
+          {/* Held back until profiles load, so a confirmed profile skips it without a flash */}
+          {profilesReady && (
+            <div className="max-w-2xl text-center space-y-8 px-8 animate-fade-in">
+              <h1 className="text-4xl md:text-6xl font-serif tracking-[0.2em] text-neutral-100">
+                Resonance Garden
+              </h1>
+              <div className="h-px w-24 bg-neutral-800 mx-auto"></div>
+              <p className="text-neutral-500 font-light leading-relaxed text-sm md:text-base max-w-lg mx-auto">
+                A visual landscape constructed from sound. <br/><br/>
+                By matching your internal frequency, we transpose nature into a spectrum you can inhabit comfortably.
+              </p>
+              {linkNotice && (
+                <p className="text-xs text-amber-400/80 tracking-wide" role="alert">
+                  {linkNotice} Starting from the beginning instead.
+                </p>
+              )}
+              <button 
+                onClick={handleStart}
+                className="mt-12 px-10 py-3 border border-neutral-800 text-neutral-400 hover:text-white hover:border-neutral-500 transition-all duration-700 uppercase tracking-[0.3em] text-xs"
+              >
+                Begin Experience
+              </button>
+              {profiles.length > 0 && (
+                <div className="flex justify-center">
+                  <ProfileMenu
+                    profiles={profiles}
+                    activeId={activeProfileId}
+                    onSelect={selectProfile}
+                    onCreate={addProfile}
+                    onRename={renameProfile}
+                    onDelete={removeProfile}
+                    align="center"
+                  />
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
       {/* Tuning Interface */}
-      {mode === AppMode.TUNING && (
+      {mode === AppMode.TUNING && tuningStep === 'PITCH' && (
         <TuningPanel 
-          frequency={frequency}
-          setFrequency={setFrequency}
-          onConfirm={handleConfirmFrequency}
+          ear={tuningEar}
+          onEarChange={setTuningEar}
+          ears={ears}
+          setFrequency={setTuningFrequency}
+          setAffected={setEarAffected}
+          toneCharacter={toneCharacter}
+          onToneCharacterChange={setToneCharacter}
+          onCheckOctave={() => goToTuningStep('OCTAVE')}
+          onConfirm={() => goToTuningStep('LOUDNESS')}
           isPlaying={isPlaying}
           togglePlay={toggleTinnitusTone}
         />
       )}
 
+      {mode === AppMode.TUNING && tuningStep === 'OCTAVE' && (
+        <OctaveCheckStep
+          ear={tuningEar}
+          frequency={ears[tuningEar].frequency}
+          playSequence={playOctaveSequence}
+          onComplete={handleOctaveResult}
+          onCancel={() => setTuningStep('PITCH')}
+        />
+      )}
+
+      {mode === AppMode.TUNING && tuningStep === 'LOUDNESS' && (
+        <CalibrationStep
+          step={2}
+          totalSteps={3}
+          title="Loudness Match"
+          description={<>
+            Raise the tone until it is as loud as the ringing in your {loudnessEar} ear. <br/>
+            Stop as soon as the two feel equal.
+          </>}
+          levelDb={toneLevelDb}
+          setLevelDb={setToneLevelDb}
+          isPlaying={isPlaying}
+          togglePlay={toggleTinnitusTone}
+          playLabel="Tone"
+          onBack={() => goToTuningStep('PITCH')}
+          onNext={handleConfirmLoudness}
+          nextLabel="Continue"
+          onSkip={() => goToTuningStep('MML')}
+        />
+      )}
+
+      {mode === AppMode.TUNING && tuningStep === 'MML' && (
+        <CalibrationStep
+          step={3}
+          totalSteps={3}
+          title="Masking Level"
+          description={<>
+            Raise the soft noise until you can no longer hear the ringing. <br/>
+            The garden will play just below this level.
+          </>}
+          levelDb={noiseLevelDb}
+          setLevelDb={setNoiseLevelDb}
+          isPlaying={isNoisePlaying}
+          togglePlay={toggleMaskingNoise}
+          playLabel="Noise"
+          onBack={() => goToTuningStep('LOUDNESS')}
+          onNext={handleConfirmMml}
+          nextLabel="Enter Garden"
+          onSkip={() => enterGarden()}
+        />
+      )}
+
       {/* Garden Overlay UI */}
       {mode === AppMode.GARDEN && (
         <>
@@ -242,10 +1075,34 @@ const App: React.FC = () => {
             {/* FIX: pointer-events-none added to container to prevent blocking canvas */}
             <div className={`absolute inset-0 z-10 pointer-events-none p-8 md:p-12 flex flex-col justify-between transition-opacity duration-500 ${isModalOpen ? 'opacity-0' : 'opacity-100'}`}>
             <header className="flex justify-between items-start opacity-0 animate-[fadeIn_2s_ease-out_forwards]">
+                <div className="space-y-3">
                 <h3 className="text-xs uppercase tracking-[0.2em] text-neutral-500">Resonance Garden</h3>
-                <div className="text-right">
-                <div className="text-xs text-neutral-600 tracking-widest uppercase mb-1">Matched Frequency</div>
-                <div className="text-emerald-500/80 font-mono text-sm">{frequency} Hz</div>
+                {profiles.length > 0 && (
+                  <ProfileMenu
+                    profiles={profiles}
+                    activeId={activeProfileId}
+                    onSelect={selectProfile}
+                    onCreate={addProfile}
+                    onRename={renameProfile}
+                    onDelete={removeProfile}
+                  />
+                )}
+                </div>
+                <div className="flex gap-8 text-right">
+                {EARS.map(ear => (
+                    <div key={ear}>
+                    <div className="text-xs text-neutral-600 tracking-widest uppercase mb-1">{ear === 'left' ? 'Left Ear' : 'Right Ear'}</div>
+                    <div className="text-emerald-500/80 font-mono text-sm">{ears[ear].affected ? formatFrequency(ears[ear].frequency) : '—'}</div>
+                    </div>
+                ))}
+                {(loudnessDb !== null || mmlDb !== null) && (
+                    <div>
+                    <div className="text-xs text-neutral-600 tracking-widest uppercase mb-1">Loudness / MML</div>
+                    <div className="text-neutral-500 font-mono text-sm">
+                        {loudnessDb !== null ? `${loudnessDb.toFixed(0)} dB` : '—'} / {mmlDb !== null ? `${mmlDb.toFixed(0)} dB` : '—'}
+                    </div>
+                    </div>
+                )}
                 </div>
             </header>
 
@@ -253,15 +1110,54 @@ const App: React.FC = () => {
                 <p className="text-[10px] uppercase tracking-[0.3em] text-neutral-600">
                 The environment resonates at your frequency
                 </p>
+                {pendingMix && (
+                <p className="mt-2 text-[10px] uppercase tracking-[0.3em] text-emerald-500/70 animate-pulse">
+                Tap anywhere to resume your garden
+                </p>
+                )}
+                {isImportingLayers && (
+                <p className="mt-2 text-[10px] uppercase tracking-[0.3em] text-emerald-500/70 animate-pulse">
+                Adding your sound to the garden
+                </p>
+                )}
+                {layerImportError && (
+                <p className="mt-2 text-xs text-red-300/80 tracking-wide" role="alert">
+                {layerImportError}
+                </p>
+                )}
+                {ceilingWarning && (
+                <p className="mt-2 text-xs text-rose-300/80 tracking-wide" role="alert">
+                The garden is pressing against your output ceiling.{' '}
+                <button
+                    onClick={() => setMasterLevelDb(db => Math.max(-40, db - 3))}
+                    className="pointer-events-auto uppercase tracking-widest text-[10px] text-rose-200 border-b border-rose-900 hover:border-rose-400 transition-colors"
+                >
+                    Lower Master 3 dB
+                </button>
+                </p>
+                )}
                 <button 
-                onClick={() => { setMode(AppMode.TUNING); }}
+                onClick={handleRetune}
                 className="pointer-events-auto mt-4 text-[10px] text-neutral-500 hover:text-emerald-400 transition-colors uppercase tracking-widest border-b border-transparent hover:border-emerald-900 pb-1"
                 >
                 Retune Frequency
                 </button>
+                <button 
+                onClick={copyMixLink}
+                className="pointer-events-auto mt-4 ml-6 text-[10px] text-neutral-500 hover:text-emerald-400 transition-colors uppercase tracking-widest border-b border-transparent hover:border-emerald-900 pb-1"
+                >
+                {linkCopied ? 'Link Copied' : 'Copy Link'}
+                </button>
             </footer>
             </div>
 
+            {/* Shown while audio files are dragged over the garden */}
+            {isDraggingFiles && (
+              <div className="absolute inset-4 z-40 pointer-events-none flex items-center justify-center border border-dashed border-emerald-500/40 bg-black/50 backdrop-blur-sm">
+                <p className="text-xs uppercase tracking-[0.3em] text-emerald-200">Drop audio to add it to the garden</p>
+              </div>
+            )}
+
             {/* LEFT BOTTOM - INFO & HELP CONTROLS */}
             <div className={`absolute bottom-10 left-8 md:left-12 z-30 pointer-events-auto flex gap-4 transition-opacity duration-500 ${isModalOpen ? 'opacity-0 pointer-events-none' : 'opacity-100 animate-[fadeIn_2s_ease-out_1.5s_forwards]'}`}>
               <button 
@@ -282,8 +1178,83 @@ const App: React.FC = () => {
                    <line x1="12" y1="8" x2="12.01" y2="8"></line>
                 </svg>
               </button>
+              <button 
+                onClick={() => setShowSettings(true)}
+                className="w-10 h-10 rounded-full border border-neutral-800 bg-black/40 backdrop-blur-md flex items-center justify-center text-neutral-500 hover:text-emerald-200 hover:border-emerald-500/50 hover:bg-black/60 transition-all duration-300 group"
+                aria-label="Settings"
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="group-hover:scale-110 transition-transform">
+                   <circle cx="12" cy="12" r="3"></circle>
+                   <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"></path>
+                </svg>
+              </button>
+              <button 
+                onClick={() => { setShowMixer(!showMixer); setShowSession(false); }}
+                className={`w-10 h-10 rounded-full border bg-black/40 backdrop-blur-md flex items-center justify-center hover:text-emerald-200 hover:border-emerald-500/50 hover:bg-black/60 transition-all duration-300 group ${showMixer ? 'border-emerald-500/50 text-emerald-200' : 'border-neutral-800 text-neutral-500'}`}
+                aria-label="Mixer"
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="group-hover:scale-110 transition-transform">
+                   <line x1="4" y1="21" x2="4" y2="14"></line>
+                   <line x1="4" y1="10" x2="4" y2="3"></line>
+                   <line x1="12" y1="21" x2="12" y2="12"></line>
+                   <line x1="12" y1="8" x2="12" y2="3"></line>
+                   <line x1="20" y1="21" x2="20" y2="16"></line>
+                   <line x1="20" y1="12" x2="20" y2="3"></line>
+                   <line x1="1" y1="14" x2="7" y2="14"></line>
+                   <line x1="9" y1="8" x2="15" y2="8"></line>
+                   <line x1="17" y1="16" x2="23" y2="16"></line>
+                </svg>
+              </button>
+              <button 
+                onClick={() => { setShowSession(!showSession); setShowMixer(false); }}
+                className={`w-10 h-10 rounded-full border bg-black/40 backdrop-blur-md flex items-center justify-center hover:text-indigo-200 hover:border-indigo-500/50 hover:bg-black/60 transition-all duration-300 group ${showSession || sessionEndsAt !== null ? 'border-indigo-500/50 text-indigo-200' : 'border-neutral-800 text-neutral-500'}`}
+                aria-label="Session timer"
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="group-hover:scale-110 transition-transform">
+                   <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z"></path>
+                </svg>
+              </button>
             </div>
 
+            {/* LEFT BOTTOM - SESSION DRAWER */}
+            <SessionDrawer
+              isOpen={showSession && !isModalOpen}
+              endsAt={sessionEndsAt}
+              onStart={startSession}
+              onCancel={cancelSession}
+              fadeSeconds={sessionFadeSeconds}
+              onFadeChange={setSessionFadeSeconds}
+              sleepMode={sleepMode}
+              onSleepChange={setSleepMode}
+            />
+
+            {/* LEFT BOTTOM - MIXER DRAWER */}
+            <MixerDrawer
+              isOpen={showMixer && !isModalOpen}
+              settings={mixerSettings}
+              onChange={setMixerSettings}
+              masterLevelDb={masterLevelDb}
+              onMasterLevelChange={setMasterLevelDb}
+              outputCeilingDb={outputCeilingDb}
+              onOutputCeilingChange={setOutputCeilingDb}
+              normaliseLoudness={normaliseLoudness}
+              onNormaliseLoudnessChange={setNormaliseLoudness}
+              mmlDb={mmlDb}
+              duckingRules={duckingRules}
+              onDuckingRulesChange={setDuckingRules}
+              spatialEnabled={spatialAudio}
+              onSpatialChange={setSpatialAudio}
+              frequency={frequency}
+              pitchPolicies={pitchPolicies}
+              onPitchPolicyChange={setLayerPitchPolicy}
+              getPitchProfile={id => audioEngine.getPitchProfile(id)}
+              space={space}
+              onSpaceChange={setSpace}
+              activeChannels={activeChannels}
+              getLevel={getChannelLevel}
+              userLayers={userLayers}
+            />
+
             {/* RIGHT SIDEBAR - CONTROLS */}
             <div className={`absolute top-1/2 right-0 -translate-y-1/2 z-20 flex flex-col items-end pr-8 md:pr-12 transition-opacity duration-500 ${isModalOpen ? 'opacity-0 pointer-events-none' : 'opacity-100 pointer-events-auto animate-[fadeIn_2s_ease-out_2s_forwards]'}`}>
                 <div className="flex flex-col items-end gap-10">
@@ -292,30 +1263,14 @@ const App: React.FC = () => {
                     <div className="space-y-4 flex flex-col items-end">
                         <h4 className="text-[10px] uppercase tracking-[0.3em] text-neutral-500 border-b border-neutral-800 pb-2 mb-2">Soundscapes</h4>
                         
-                        {PRESETS.map((preset) => {
-                            const isActive = activePresetId === preset.id;
-                            return (
-                                <button
-                                    key={preset.id}
-                                    onClick={() => applyPreset(preset)}
-                                    className={`
-                                        group flex items-center gap-4 transition-all duration-500 ease-out
-                                        ${isActive ? 'translate-x-0' : 'translate-x-2 hover:translate-x-0'}
-                                    `}
-                                >
-                                    <span className={`text-[10px] uppercase tracking-widest transition-colors duration-300 ${isActive ? 'text-emerald-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
-                                        {preset.name}
-                                    </span>
-                                    <div className={`
-                                        w-2 h-2 rounded-full border transition-all duration-500
-                                        ${isActive 
-                                            ? 'bg-emerald-400 border-emerald-400 shadow-[0_0_10px_rgba(52,211,153,0.5)]' 
-                                            : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
-                                        }
-                                    `}></div>
-                                </button>
-                            );
-                        })}
+                        <PresetList
+                            userPresets={userPresets}
+                            activePresetId={activePresetId}
+                            onApply={applyPreset}
+                            onSave={saveCurrentAsPreset}
+                            onChange={setUserPresets}
+                            canSave={activeSounds.size > 0 || droneActive || pianoActive}
+                        />
                     </div>
 
                     {/* SECTION 2: HARMONY (Background Tones) */}
@@ -363,21 +1318,52 @@ const App: React.FC = () => {
                         </button>
                     </div>
 
+                    {/* SECTION 3: THERAPY (Notched Sound) */}
+                    <div className="space-y-4 flex flex-col items-end">
+                        <h4 className="text-[10px] uppercase tracking-[0.3em] text-neutral-500 border-b border-neutral-800 pb-2 mb-2">Therapy</h4>
+
+                        {/* Notched Mode */}
+                        <button
+                            onClick={() => setNotchActive(!notchActive)}
+                            className={`
+                                group flex items-center gap-4 transition-all duration-500 ease-out
+                                ${notchActive ? 'translate-x-0' : 'translate-x-2 hover:translate-x-0'}
+                            `}
+                        >
+                             <span className={`text-[10px] uppercase tracking-widest transition-colors duration-300 ${notchActive ? 'text-rose-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
+                                Notched Mode
+                            </span>
+                             <div className={`
+                                w-2 h-2 rounded-full border transition-all duration-500
+                                ${notchActive 
+                                    ? 'bg-rose-400 border-rose-400 shadow-[0_0_10px_rgba(251,113,133,0.5)]' 
+                                    : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
+                                }
+                            `}></div>
+                        </button>
+
+                        {/* Notch Width */}
+                        <div className={`flex items-center gap-3 transition-opacity duration-500 ${notchActive ? 'opacity-100' : 'opacity-40'}`}>
+                            {([0.5, 1] as NotchWidth[]).map(width => (
+                                <button
+                                    key={width}
+                                    onClick={() => setNotchWidth(width)}
+                                    className={`text-[9px] uppercase tracking-widest transition-colors duration-300 ${notchWidth === width ? 'text-rose-200' : 'text-neutral-600 hover:text-neutral-400'}`}
+                                >
+                                    {width === 0.5 ? '½ Octave' : '1 Octave'}
+                                </button>
+                            ))}
+                        </div>
+                        {matchedWidth > notchWidth && (
+                            <span className="text-[9px] uppercase tracking-widest text-neutral-600">
+                                Widened to fit your matched sound
+                            </span>
+                        )}
+                    </div>
+
                     {/* Clear Button */}
                     <button
-                        onClick={() => {
-                            // Stop Presets
-                            activeSounds.forEach(sound => {
-                                const stop = stopFns.current.get(sound);
-                                if(stop) stop();
-                            });
-                            stopFns.current.clear();
-                            setActiveSounds(new Set());
-                            
-                            // Stop Harmony
-                            setDroneActive(false);
-                            setPianoActive(false);
-                        }}
+                        onClick={stopAllLayers}
                         className={`
                             mt-2 text-[9px] uppercase tracking-widest text-neutral-700 hover:text-red-400 transition-colors
                             ${(activeSounds.size > 0 || droneActive || pianoActive) ? 'opacity-100' : 'opacity-0 pointer-events-none'}
@@ -399,15 +1385,57 @@ const App: React.FC = () => {
                  <p className="mb-4">
                    Curated audio environments (Forest, Rain, Ocean) designed to mask tinnitus frequencies. 
                    Select a preset from the menu or click objects in the 3D world to mix your own environment.
+                   <strong className="text-neutral-300"> Save Current</strong> keeps your mix as a preset, including each layer's level, the harmony voices and each layer's pitch policy.
+                   Use Edit to rename, reorder or delete saved presets.
+                   To add a sound of your own, drop an audio file onto the garden or use <strong className="text-neutral-300">Add Sound</strong> in the settings; it gets a marker of its own and mixes like any other layer.
                  </p>
                  
                  <h4 className="text-amber-400 text-xs uppercase tracking-widest mb-2">Harmony</h4>
                  <p>
                    Musical anchors that provide deep emotional grounding. 
-                   <strong className="text-neutral-300"> Cello Drone</strong> provides a steady, warm bass layer. 
-                   <strong className="text-neutral-300"> Ambient Piano</strong> adds generative, calming melodies.
+                   <strong className="text-neutral-300"> Cello Drone</strong> provides a steady, warm bass layer; in the settings it can follow your frequency, and its chord, instrument, level and brightness can be changed. 
+                   <strong className="text-neutral-300"> Ambient Piano</strong> adds generative, calming melodies in the key of your frequency; its scale, tempo and sustain pedal are in the settings.
                    Use these to reduce the perceived harshness of the ringing.
                  </p>
+
+                 <h4 className="text-emerald-400 text-xs uppercase tracking-widest mb-2 mt-4">Mixer</h4>
+                 <p>
+                   Open the mixer from the slider icon to set each layer's level and stereo position, or mute and solo layers.
+                   The master fader starts just below your minimum masking level (marked in amber), the clinically recommended setting.
+                   The <strong className="text-neutral-300">Ceiling</strong> is the loudest the garden can ever play, however many layers are on; a limiter holds it there, and you'll be warned if the mix keeps pressing against it.
+                   The <strong className="text-neutral-300">Level Normaliser</strong> slowly turns the garden down when many layers play at once; it never turns it up.
+                   With <strong className="text-neutral-300">3D Audio</strong> on, each sound comes from its place in the garden; orbit the view to move it around you. Best with headphones.
+                   The Ducking tab lets one layer sit under another, for example rain quietening whenever other sounds play.
+                   The Pitch tab sets how each layer meets your frequency: <strong className="text-neutral-300">Shift</strong> moves the sound's centre towards it,
+                   <strong className="text-neutral-300"> Emphasise</strong> keeps its pitch but lifts the band around it, and <strong className="text-neutral-300">Natural</strong> leaves it as recorded.
+                   Imported sounds start natural.
+                   The Space tab places the garden in a forest clearing, a stone pavilion or beside an open lake, and sets how much of each layer reaches that space's reverb; presets remember the space.
+                   Your levels and rules are remembered for your next visit.
+                 </p>
+
+                 <h4 className="text-neutral-300 text-xs uppercase tracking-widest mb-2 mt-4">Profiles</h4>
+                 <p>
+                   Your match, mix and settings are saved to a profile in this browser. Once a profile has a confirmed frequency you go straight to the garden next time.
+                   Use the profile name at the top left to switch, add or rename profiles and to see your match history.
+                   The gear button backs up profiles, presets and ducking rules to a file, or restores them from one.
+                   It can also export what is playing as a looping WAV track for devices where the garden can't run.
+                   <strong className="text-neutral-300"> Copy Link</strong> shares your frequency and current mix; opening the link goes straight to that garden.
+                   The settings also show the seed behind the garden's generative details; presets and links keep it, so a garden can be recreated exactly.
+                 </p>
+
+                 <h4 className="text-indigo-400 text-xs uppercase tracking-widest mb-2 mt-4">Session</h4>
+                 <p>
+                   The moon button sets a session timer for bedtime listening. When it runs out, every layer fades down slowly and then stops, including the drone and piano.
+                   <strong className="text-neutral-300"> Sleep Mode</strong> dims the garden and stills its motion to save battery.
+                 </p>
+
+                 <h4 className="text-rose-400 text-xs uppercase tracking-widest mb-2 mt-4">Therapy</h4>
+                 <p>
+                   <strong className="text-neutral-300">Notched Mode</strong> removes a band of energy centred on your matched frequency from every layer.
+                   Choose a half-octave or full-octave notch. Each ear is notched at its own frequency, and the notch follows when you retune.
+                   If only one ear rings, the masking is weighted towards that side.
+                   If you matched a noise band or hiss rather than a pure tone, the notch widens to cover the whole band.
+                 </p>
                </div>
             </InfoModal>
 
@@ -420,6 +1448,37 @@ const App: React.FC = () => {
                  "This is a healing plan designed to relieve tinnitus through frequency resonance."
                </p>
             </InfoModal>
+
+            <InfoModal 
+              isOpen={showSettings} 
+              onClose={() => setShowSettings(false)} 
+              title="Settings"
+            >
+              <SeedControl seed={seed} onChange={setSeed} />
+              <DroneControls settings={droneSettings} onChange={setDroneSettings} frequency={frequency} />
+              <PianoControls settings={pianoSettings} onChange={setPianoSettings} frequency={frequency} />
+              <LayerImportPanel
+                layers={userLayers}
+                isImporting={isImportingLayers}
+                error={layerImportError}
+                onImport={importLayerFiles}
+                onRemove={removeUserLayer}
+              />
+              <ExportPanel
+                canExport={activeSounds.size > 0 || droneActive || pianoActive}
+                seed={seed}
+                onExport={exportTrack}
+              />
+              <BackupPanel
+                getContents={() => ({
+                  profiles: profilesRef.current.map(p => (p.id === activeProfileId ? snapshotProfile(p) : p)),
+                  presets: userPresets,
+                  duckingRules,
+                })}
+                onImport={importBackup}
+              />
+              <DiagnosticsPanel report={soundReport} />
+            </InfoModal>
         </>
       )}
       
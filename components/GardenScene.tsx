@@ -1,7 +1,7 @@
-import React, { Suspense, useRef, useMemo } from 'react';
+import React, { Suspense, useRef, useMemo, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette, Noise, ChromaticAberration } from '@react-three/postprocessing';
+import { EffectComposer, Bloom, Vignette, Noise, ChromaticAberration, BrightnessContrast } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import { ParticleField } from './Visuals/ParticleField';
 import { InteractiveObject } from './Visuals/InteractiveObject';
@@ -13,16 +13,64 @@ import { BirdFlock } from './Visuals/BirdFlock';
 import { RainParticles } from './Visuals/RainParticles';
 import { LeafParticles } from './Visuals/LeafParticles';
 import { InsectSwarm } from './Visuals/InsectSwarm';
-import { AppMode, InteractionType } from '../types';
+import { AppMode, InteractionType, LayerId, UserLayer, Vec3 } from '../types';
+import { audioEngine } from '../services/AudioEngine';
 
 interface GardenSceneProps {
   frequency: number;
   mode: AppMode;
-  activeSounds: Set<InteractionType>;
-  onToggleSound: (type: InteractionType) => void;
+  activeSounds: Set<LayerId>;
+  onToggleSound: (type: LayerId) => void;
+  userLayers: UserLayer[]; // Imported layers, each with a marker of its own
   isModalOpen?: boolean;
+  sleepMode?: boolean; // Dims post-processing and stops continuous rendering
+  seed: number; // Lays out every particle system, see services/random
 }
 
+// Offset of the garden group below; sound positions are given in its local space
+const GARDEN_OFFSET: Vec3 = [0, -1, 0];
+
+// Where each interactive layer lives in the garden. Shared by the visual
+// markers and the spatial audio so the sound comes from what you see.
+const LAYER_POSITIONS: Record<InteractionType, Vec3> = {
+  BIRD: [-5, 4, -4],
+  WIND: [-3, 1.5, -1],
+  INSECT: [2.5, 0.8, 3.5],
+  LEAVES: [-6, 3, 2],
+  WATER: [0, 0.5, 5],
+  RAIN: [2, 6, -5],
+};
+
+const toGardenSpace = ([x, y, z]: Vec3): Vec3 =>
+  [x + GARDEN_OFFSET[0], y + GARDEN_OFFSET[1], z + GARDEN_OFFSET[2]];
+
+// Helper to keep the audio listener on the camera and the layers at their
+// garden positions, so orbiting moves the sounds around the listener's head
+const SpatialAudioSync: React.FC<{ userLayers: UserLayer[] }> = ({ userLayers }) => {
+  const { camera } = useThree();
+  const forward = useMemo(() => new THREE.Vector3(), []);
+  const up = useMemo(() => new THREE.Vector3(), []);
+
+  useEffect(() => {
+    (Object.keys(LAYER_POSITIONS) as InteractionType[]).forEach(type => {
+      audioEngine.setLayerPosition(type, toGardenSpace(LAYER_POSITIONS[type]));
+    });
+  }, []);
+
+  useEffect(() => {
+    userLayers.forEach(layer => audioEngine.setLayerPosition(layer.id, toGardenSpace(layer.position)));
+  }, [userLayers]);
+
+  useFrame(() => {
+    camera.getWorldDirection(forward);
+    up.set(0, 1, 0).applyQuaternion(camera.quaternion);
+    const p = camera.position;
+    audioEngine.setListenerPose([p.x, p.y, p.z], [forward.x, forward.y, forward.z], [up.x, up.y, up.z]);
+  });
+
+  return null;
+};
+
 // Helper to track mouse RAY direction
 const MouseTracker = ({ rayRef }: { rayRef: React.MutableRefObject<THREE.Vector3> }) => {
   const { camera, pointer } = useThree();
@@ -42,7 +90,7 @@ const MouseTracker = ({ rayRef }: { rayRef: React.MutableRefObject<THREE.Vector3
 };
 
 // Helper component to handle the transition logic using useFrame inside Canvas
-const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSounds, onToggleSound, isModalOpen }) => {
+const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSounds, onToggleSound, userLayers, isModalOpen, sleepMode, seed }) => {
   const controlsRef = useRef<any>(null);
   
   // Stores the NORMALIZED DIRECTION of the mouse ray from the camera
@@ -51,18 +99,20 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
   return (
     <>
         <MouseTracker rayRef={rayRef} />
+        <SpatialAudioSync userLayers={userLayers} />
 
-        <group position={[0, -1, 0]}>
+        <group position={GARDEN_OFFSET}>
           
           {/* 1. The Water Surface (Lowest Layer) - Reacts to WATER sound */}
           <WaterSurface 
             frequency={frequency} 
             mode={mode} 
             isActive={activeSounds.has('WATER')} 
+            seed={seed}
           />
 
           {/* 2. The Ground Particles (Mid Layer - Floating above water) */}
-          <ParticleField frequency={frequency} count={4000} mode={mode} rayRef={rayRef} />
+          <ParticleField frequency={frequency} count={4000} mode={mode} rayRef={rayRef} seed={seed} />
           
           {/* 3. The Forest (Surrounding) - REACTS TO WIND */}
           {/* Increased count to 100 to fill the sides, creating a dense forest around the path */}
@@ -72,25 +122,26 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
             mode={mode} 
             rayRef={rayRef}
             isWindActive={activeSounds.has('WIND')}
+            seed={seed}
           />
           
           {/* 4. The Architecture (Background Anchor) */}
-          <ParticleArchitecture frequency={frequency} position={[0, -0.5, -12]} mode={mode} rayRef={rayRef} />
+          <ParticleArchitecture frequency={frequency} position={[0, -0.5, -12]} mode={mode} rayRef={rayRef} seed={seed} />
 
           {/* 5. The Sky Waveform (Ambient Ring) - Now with mode prop */}
-          <BackgroundWaveform frequency={frequency} position={[0, 8, 0]} mode={mode} />
+          <BackgroundWaveform frequency={frequency} position={[0, 8, 0]} mode={mode} seed={seed} />
 
           {/* 6. Background Bird Flock (New Ambient Life) */}
-          <BirdFlock count={12} />
+          <BirdFlock count={12} seed={seed} />
 
           {/* 7. Rain Particles (Conditional Visual) */}
-          <RainParticles active={activeSounds.has('RAIN')} />
+          <RainParticles active={activeSounds.has('RAIN')} seed={seed} />
 
           {/* 8. Leaf Particles (Conditional Visual) */}
-          <LeafParticles active={activeSounds.has('LEAVES')} />
+          <LeafParticles active={activeSounds.has('LEAVES')} seed={seed} />
 
           {/* 9. Insect Swarm (Conditional Visual) */}
-          <InsectSwarm active={activeSounds.has('INSECT')} />
+          <InsectSwarm active={activeSounds.has('INSECT')} seed={seed} />
 
           {/* 10. Background Stars */}
           <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
@@ -100,7 +151,7 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
           <group>
             {/* -- BIRDS (Original) -- */}
             <InteractiveObject 
-              position={[-5, 4, -4]} 
+              position={LAYER_POSITIONS.BIRD} 
               type="BIRD" 
               label="Avian Resonance"
               scale={1.2}
@@ -108,24 +159,26 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
               onToggle={() => onToggleSound('BIRD')}
               mode={mode}
               isUIHidden={isModalOpen}
+              seed={seed}
             />
             
             {/* -- WIND (Original) -- */}
             <InteractiveObject 
-              position={[-3, 1.5, -1]} 
+              position={LAYER_POSITIONS.WIND} 
               type="WIND" 
               label="Whispering Wind"
               isPlaying={activeSounds.has('WIND')}
               onToggle={() => onToggleSound('WIND')}
               mode={mode}
               isUIHidden={isModalOpen}
+              seed={seed}
             />
 
             {/* -- NEW ELEMENTS -- */}
             
             {/* INSECT: Low to the ground, slight glow */}
             <InteractiveObject 
-              position={[2.5, 0.8, 3.5]} 
+              position={LAYER_POSITIONS.INSECT} 
               type="INSECT" 
               label="Summer Cicada"
               scale={0.6}
@@ -133,11 +186,12 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
               onToggle={() => onToggleSound('INSECT')}
               mode={mode}
               isUIHidden={isModalOpen}
+              seed={seed}
             />
 
             {/* LEAVES: Near trees (High Left) */}
             <InteractiveObject 
-              position={[-6, 3, 2]} 
+              position={LAYER_POSITIONS.LEAVES} 
               type="LEAVES" 
               label="Rustling Leaves"
               scale={1.0}
@@ -145,11 +199,12 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
               onToggle={() => onToggleSound('LEAVES')}
               mode={mode}
               isUIHidden={isModalOpen}
+              seed={seed}
             />
 
             {/* WATER: Near bottom/surface (Low Center) */}
             <InteractiveObject 
-              position={[0, 0.5, 5]} 
+              position={LAYER_POSITIONS.WATER} 
               type="WATER" 
               label="Gentle Tide"
               scale={1.0}
@@ -157,11 +212,12 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
               onToggle={() => onToggleSound('WATER')}
               mode={mode}
               isUIHidden={isModalOpen}
+              seed={seed}
             />
 
             {/* RAIN: High up in the sky */}
             <InteractiveObject 
-              position={[2, 6, -5]} 
+              position={LAYER_POSITIONS.RAIN} 
               type="RAIN" 
               label="Soft Rain"
               scale={1.0}
@@ -169,7 +225,24 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
               onToggle={() => onToggleSound('RAIN')}
               mode={mode}
               isUIHidden={isModalOpen}
+              seed={seed}
             />
+
+            {/* IMPORTED: The listener's own sounds, on a ring around the garden */}
+            {userLayers.map(layer => (
+              <InteractiveObject
+                key={layer.id}
+                position={layer.position}
+                type={layer.id}
+                label={layer.name}
+                scale={0.8}
+                isPlaying={activeSounds.has(layer.id)}
+                onToggle={() => onToggleSound(layer.id)}
+                mode={mode}
+                isUIHidden={isModalOpen}
+                seed={seed}
+              />
+            ))}
           </group>
           
         </group>
@@ -181,7 +254,7 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
             luminanceThreshold={0.2} 
             luminanceSmoothing={0.9} 
             height={300} 
-            intensity={1.5} 
+            intensity={sleepMode ? 0.4 : 1.5} 
           />
           {/* Chromatic Aberration adds that ethereal lens/dream effect */}
           <ChromaticAberration 
@@ -189,8 +262,10 @@ const SceneContent: React.FC<GardenSceneProps> = ({ frequency, mode, activeSound
             radialModulation={false}
             modulationOffset={0}
           />
-          <Noise opacity={0.08} />
-          <Vignette eskil={false} offset={0.1} darkness={1.1} />
+          <Noise opacity={sleepMode ? 0 : 0.08} />
+          <Vignette eskil={false} offset={0.1} darkness={sleepMode ? 1.6 : 1.1} />
+          {/* Sleep mode: dim the whole frame */}
+          <BrightnessContrast brightness={sleepMode ? -0.3 : 0} contrast={0} />
         </EffectComposer>
 
         <OrbitControls 
@@ -218,8 +293,11 @@ export const GardenScene: React.FC<GardenSceneProps> = (props) => {
   return (
     <Canvas
       camera={{ position: [0, 3, 12], fov: 50 }}
-      dpr={[1, 2]} 
+      dpr={props.sleepMode ? 1 : [1, 2]} 
       gl={{ alpha: false, antialias: false }}
+      // Sleep mode pauses the particle fields, trees and sky: frames are
+      // only drawn on interaction, which lets the GPU idle
+      frameloop={props.sleepMode ? 'demand' : 'always'}
     >
       <color attach="background" args={[bgColor]} />
       {/* Dense fog for dream atmosphere */}
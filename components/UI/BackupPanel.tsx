@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { BackupContents, BackupError, backupFileName, createBackup, parseBackup } from '../../services/Backup';
+import { downloadBlob } from '../../services/download';
+
+interface BackupPanelProps {
+  getContents: () => Required<BackupContents>; // Everything that can be exported
+  onImport: (contents: BackupContents) => void;
+}
+
+type Section = keyof BackupContents;
+
+const SECTION_LABELS: Record<Section, string> = {
+  profiles: 'Profiles',
+  presets: 'Saved Presets',
+  duckingRules: 'Ducking Rules',
+};
+
+const SECTIONS: Section[] = ['profiles', 'presets', 'duckingRules'];
+
+// Copies one section across, keeping its type tied to its key
+const copySection = <K extends Section>(from: Required<BackupContents>, to: BackupContents, section: K) => {
+  to[section] = from[section];
+};
+
+const describe = (contents: BackupContents) =>
+  SECTIONS
+    .filter(section => contents[section] !== undefined)
+    .map(section => `${contents[section]!.length} ${SECTION_LABELS[section].toLowerCase()}`)
+    .join(', ');
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ getContents, onImport }) => {
+  const [selected, setSelected] = useState<Record<Section, boolean>>({ profiles: true, presets: true, duckingRules: true });
+  const [pending, setPending] = useState<BackupContents | null>(null);
+  const [error, setError] = useState<BackupError | null>(null);
+  const [imported, setImported] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const all = getContents();
+    const contents: BackupContents = {};
+    SECTIONS.forEach(section => {
+      if (selected[section]) copySection(all, contents, section);
+    });
+    const blob = new Blob([JSON.stringify(createBackup(contents), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, backupFileName());
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPending(null);
+    setError(null);
+    setImported(null);
+    try {
+      setPending(parseBackup(await file.text()));
+    } catch (err) {
+      setError(err instanceof BackupError ? err : new BackupError('The file could not be read.'));
+    }
+  };
+
+  const confirmImport = () => {
+    if (!pending) return;
+    onImport(pending);
+    setImported(describe(pending));
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Export */}
+      <div className="space-y-3">
+        <h4 className="text-emerald-400 text-xs uppercase tracking-widest">Export</h4>
+        <div className="flex flex-wrap gap-4 text-[10px] uppercase tracking-widest">
+          {SECTIONS.map(section => (
+            <label key={section} className="flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={selected[section]}
+                onChange={e => setSelected({ ...selected, [section]: e.target.checked })}
+                className="accent-emerald-600"
+              />
+              {SECTION_LABELS[section]}
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={!SECTIONS.some(section => selected[section])}
+          className="px-6 py-2 border border-neutral-700 text-neutral-300 hover:border-emerald-500/50 hover:text-emerald-100 transition-colors duration-300 text-xs uppercase tracking-widest disabled:opacity-30"
+        >
+          Download Backup
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="space-y-3">
+        <h4 className="text-amber-400 text-xs uppercase tracking-widest">Import</h4>
+        <p className="text-xs">
+          Profiles and presets with the same id are replaced; others are added. Ducking rules replace the current matrix.
+        </p>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="px-6 py-2 border border-neutral-700 text-neutral-300 hover:border-amber-500/50 hover:text-amber-100 transition-colors duration-300 text-xs uppercase tracking-widest"
+        >
+          Choose File
+        </button>
+
+        {pending && (
+          <div className="flex items-center justify-between gap-4 text-xs border border-neutral-800 p-3">
+            <span>Found {describe(pending)}.</span>
+            <button onClick={confirmImport} className="text-[10px] uppercase tracking-widest text-emerald-300 hover:text-emerald-100">
+              Import
+            </button>
+          </div>
+        )}
+
+        {imported && <p className="text-xs text-emerald-400/80">Imported {imported}.</p>}
+
+        {error && (
+          <div className="border border-red-900/50 bg-red-950/20 p-3 space-y-2" role="alert">
+            <p className="text-xs text-red-300">{error.message}</p>
+            {error.problems.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto font-mono text-[10px] text-red-300/70 space-y-1">
+                {error.problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
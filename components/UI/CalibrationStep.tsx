@@ -0,0 +1,111 @@
+import React from 'react';
+import { MAX_CALIBRATION_DB, MIN_CALIBRATION_DB } from '../../services/levels';
+
+interface CalibrationStepProps {
+  step: number; // 1-based position in the tuning flow
+  totalSteps: number;
+  title: string;
+  description: React.ReactNode;
+  levelDb: number;
+  setLevelDb: (db: number) => void;
+  isPlaying: boolean;
+  togglePlay: () => void;
+  playLabel: string; // e.g. "Tone" or "Noise"
+  onBack: () => void;
+  onNext: () => void;
+  nextLabel: string;
+  onSkip: () => void;
+}
+
+// Shared layout for the level calibration steps (loudness match, MML).
+// The slider is in dBFS and capped at MAX_CALIBRATION_DB.
+export const CalibrationStep: React.FC<CalibrationStepProps> = ({
+  step,
+  totalSteps,
+  title,
+  description,
+  levelDb,
+  setLevelDb,
+  isPlaying,
+  togglePlay,
+  playLabel,
+  onBack,
+  onNext,
+  nextLabel,
+  onSkip
+}) => {
+  const sliderPos = (levelDb - MIN_CALIBRATION_DB) / (MAX_CALIBRATION_DB - MIN_CALIBRATION_DB);
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none z-10 bg-black/40 backdrop-blur-sm transition-all duration-1000">
+      <div className="pointer-events-auto max-w-md w-full p-8 text-center space-y-12">
+
+        {/* Header */}
+        <div className="space-y-4">
+          <div className="text-[10px] uppercase tracking-[0.3em] text-neutral-600">Step {step} of {totalSteps}</div>
+          <h2 className="text-3xl font-light text-neutral-200 tracking-[0.2em] uppercase">{title}</h2>
+          <p className="text-neutral-400 font-light text-sm leading-relaxed">{description}</p>
+
+          <div className="flex items-center justify-center gap-2 text-amber-400/90 text-[10px] uppercase tracking-widest bg-amber-900/20 py-2 px-4 rounded-sm border border-amber-900/30 mx-auto w-fit shadow-[0_0_15px_rgba(245,158,11,0.1)]">
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+               <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+               <line x1="12" y1="9" x2="12" y2="13"/>
+               <line x1="12" y1="17" x2="12.01" y2="17"/>
+            </svg>
+            <span>Start quiet and raise slowly</span>
+          </div>
+        </div>
+
+        {/* Level Slider */}
+        <div className="space-y-4 relative py-6">
+          <div className="relative w-full h-12 flex items-center">
+            <div className="absolute w-full h-1 bg-neutral-800 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-700/50" style={{ width: `${sliderPos * 100}%` }} />
+            </div>
+            <input
+              type="range"
+              min={MIN_CALIBRATION_DB}
+              max={MAX_CALIBRATION_DB}
+              step={0.5}
+              value={levelDb}
+              onChange={e => setLevelDb(parseFloat(e.target.value))}
+              className="absolute w-full opacity-0 cursor-pointer h-12"
+              aria-label={`${playLabel} level`}
+            />
+            <div
+              className="absolute w-4 h-4 bg-emerald-100 rounded-full shadow-[0_0_15px_rgba(16,185,129,0.5)] transform -translate-x-1/2 pointer-events-none"
+              style={{ left: `${sliderPos * 100}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-neutral-500 font-mono tracking-widest">
+            <span>Quiet</span>
+            <span className="text-emerald-400 text-base">{levelDb.toFixed(1)} dB</span>
+            <span>Loud</span>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="space-y-6">
+          <div className="flex justify-center gap-6">
+            <button
+              onClick={togglePlay}
+              className="px-6 py-2 border border-neutral-700 text-neutral-300 hover:border-emerald-500/50 hover:text-emerald-100 transition-colors duration-300 text-sm uppercase tracking-widest"
+            >
+              {isPlaying ? `Stop ${playLabel}` : `Play ${playLabel}`}
+            </button>
+            <button
+              onClick={onNext}
+              className="px-8 py-2 bg-emerald-900/20 border border-emerald-900/50 text-emerald-100 hover:bg-emerald-800/30 hover:border-emerald-500 transition-all duration-500 text-sm uppercase tracking-widest shadow-[0_0_20px_rgba(6,78,59,0.2)]"
+            >
+              {nextLabel}
+            </button>
+          </div>
+          <div className="flex justify-center gap-8 text-[10px] uppercase tracking-widest">
+            <button onClick={onBack} className="text-neutral-600 hover:text-neutral-300 transition-colors">Back</button>
+            <button onClick={onSkip} className="text-neutral-600 hover:text-neutral-300 transition-colors">Skip</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
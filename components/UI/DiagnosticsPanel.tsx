@@ -0,0 +1,42 @@
+import React from 'react';
+import { SoundReport, SoundStatus, soundEntry } from '../../services/SoundLibrary';
+import { CHANNEL_LABELS } from '../../services/Mixer';
+
+interface DiagnosticsPanelProps {
+  report: SoundReport[]; // Empty while the library is still loading
+}
+
+const STATUS_LABELS: Record<SoundStatus, string> = {
+  LOADED: 'Loaded',
+  MISSING: 'Missing',
+  UNDECODABLE: 'Unreadable',
+};
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ report }) => {
+  const problems = report.filter(r => r.status !== 'LOADED').length;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-neutral-300 text-xs uppercase tracking-widest">Sound Files</h4>
+      <p className="text-xs">
+        {report.length === 0
+          ? 'Loading sounds…'
+          : problems === 0
+            ? 'Every recording loaded.'
+            : `${problems} recording${problems === 1 ? '' : 's'} could not be used; a synthesised stand-in plays instead.`}
+      </p>
+      <ul className="space-y-1 text-[10px] uppercase tracking-widest">
+        {report.map(({ id, file, status, detail }) => (
+          <li key={id} className="flex items-center gap-3">
+            <div className={`w-1.5 h-1.5 rounded-full ${status === 'LOADED' ? 'bg-emerald-500' : 'bg-amber-500'}`}></div>
+            <span className="w-16 text-neutral-400">{CHANNEL_LABELS[id]}</span>
+            <span className="font-mono normal-case tracking-normal text-neutral-600">{file}</span>
+            <span className={`ml-auto ${status === 'LOADED' ? 'text-neutral-600' : 'text-amber-400/80'}`} title={detail}>
+              {status === 'LOADED' ? STATUS_LABELS[status] : `${STATUS_LABELS[status]} · ${soundEntry(id).fallback.synth.toLowerCase()} synth`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
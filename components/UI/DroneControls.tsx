@@ -0,0 +1,77 @@
+import React from 'react';
+import { DroneSettings, DroneTimbre, DroneVoicing } from '../../types';
+import { DRONE_TIMBRES, DRONE_VOICINGS, droneRoot } from '../../services/Drone';
+import { noteName } from '../../services/frequency';
+
+interface DroneControlsProps {
+  settings: DroneSettings;
+  onChange: (settings: DroneSettings) => void;
+  frequency: number; // The matched frequency, which the root can follow
+}
+
+const optionClass = (selected: boolean) =>
+  `px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${selected ? 'border-amber-500/60 text-amber-200' : 'border-neutral-800 text-neutral-500 hover:text-neutral-300'}`;
+
+export const DroneControls: React.FC<DroneControlsProps> = ({ settings, onChange, frequency }) => {
+  const root = noteName(droneRoot(settings, frequency));
+  const update = (patch: Partial<DroneSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-amber-400 text-xs uppercase tracking-widest">Drone</h4>
+      <p className="text-xs">
+        The drone is built on <span className="font-mono text-neutral-300">{root.name}</span>.
+        Let it follow your frequency to play in its key, divided down into the bass; when you retune, it glides to the new root.
+      </p>
+
+      {/* Root from the matched frequency */}
+      <button
+        onClick={() => update({ followMatch: !settings.followMatch })}
+        className="group flex items-center gap-3"
+      >
+        <div className={`
+          w-2 h-2 rounded-full border transition-all duration-500
+          ${settings.followMatch
+            ? 'bg-amber-700 border-amber-600 shadow-[0_0_10px_rgba(180,83,9,0.5)]'
+            : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
+          }
+        `}></div>
+        <span className={`text-[10px] uppercase tracking-widest transition-colors ${settings.followMatch ? 'text-amber-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
+          Follow My Frequency
+        </span>
+      </button>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(DRONE_VOICINGS) as DroneVoicing[]).map(voicing => (
+          <button key={voicing} onClick={() => update({ voicing })} className={optionClass(settings.voicing === voicing)}>
+            {DRONE_VOICINGS[voicing].label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(DRONE_TIMBRES) as DroneTimbre[]).map(timbre => (
+          <button key={timbre} onClick={() => update({ timbre })} className={optionClass(settings.timbre === timbre)}>
+            {DRONE_TIMBRES[timbre].label}
+          </button>
+        ))}
+      </div>
+
+      {([['level', 'Level'], ['brightness', 'Brightness']] as const).map(([key, label]) => (
+        <div key={key} className="flex items-center gap-3 text-[10px] uppercase tracking-widest">
+          <span className="w-20 text-neutral-500">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={settings[key]}
+            onChange={e => update({ [key]: parseFloat(e.target.value) })}
+            className="flex-1 accent-amber-500"
+            aria-label={`Drone ${label.toLowerCase()}`}
+          />
+          <span className="w-10 text-right font-mono text-neutral-400">{Math.round(settings[key] * 100)}%</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { DuckingRule, DuckingSource, MixerChannelId, UserLayer } from '../../types';
+import { channelLabel, mixerChannels } from '../../services/Mixer';
+import { createDuckingRule } from '../../services/Ducking';
+
+interface DuckingEditorProps {
+  rules: DuckingRule[];
+  onChange: (rules: DuckingRule[]) => void;
+  userLayers: UserLayer[];
+}
+
+const selectClass = 'bg-black/60 border border-neutral-800 text-[9px] uppercase tracking-widest text-neutral-300 px-1 py-0.5 focus:outline-none focus:border-emerald-700';
+
+export const DuckingEditor: React.FC<DuckingEditorProps> = ({ rules, onChange, userLayers }) => {
+  const channels = mixerChannels(userLayers);
+
+  const updateRule = (id: string, patch: Partial<DuckingRule>) => {
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(r => r.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {rules.length === 0 && (
+        <p className="text-[10px] text-neutral-600 tracking-wide">No ducking rules. Every layer plays at its fader level.</p>
+      )}
+
+      {rules.map(rule => (
+        <div key={rule.id} className="space-y-2 border-b border-neutral-900 pb-3">
+          <div className="flex items-center gap-2">
+            <select
+              value={rule.source}
+              onChange={e => updateRule(rule.id, { source: e.target.value as DuckingSource })}
+              className={selectClass}
+              aria-label="Ducking source"
+            >
+              <option value="ANY">Any layer</option>
+              {channels.map(id => <option key={id} value={id}>{channelLabel(id, userLayers)}</option>)}
+            </select>
+            <span className="text-[9px] uppercase tracking-widest text-neutral-600">ducks</span>
+            <select
+              value={rule.target}
+              onChange={e => updateRule(rule.id, { target: e.target.value as MixerChannelId })}
+              className={selectClass}
+              aria-label="Ducking target"
+            >
+              {channels.map(id => <option key={id} value={id}>{channelLabel(id, userLayers)}</option>)}
+            </select>
+            <button
+              onClick={() => removeRule(rule.id)}
+              className="ml-auto text-neutral-600 hover:text-red-400 transition-colors text-xs"
+              aria-label="Remove rule"
+            >
+              ×
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 text-[9px] uppercase tracking-widest text-neutral-500">
+            <label className="flex flex-col gap-1">
+              <span>{rule.amount.toFixed(1)} dB</span>
+              <input type="range" min={0} max={24} step={0.5} value={rule.amount}
+                onChange={e => updateRule(rule.id, { amount: parseFloat(e.target.value) })}
+                className="accent-emerald-500" />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Atk {rule.attack.toFixed(1)}s</span>
+              <input type="range" min={0.05} max={5} step={0.05} value={rule.attack}
+                onChange={e => updateRule(rule.id, { attack: parseFloat(e.target.value) })}
+                className="accent-emerald-500" />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Rel {rule.release.toFixed(1)}s</span>
+              <input type="range" min={0.05} max={8} step={0.05} value={rule.release}
+                onChange={e => updateRule(rule.id, { release: parseFloat(e.target.value) })}
+                className="accent-emerald-500" />
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...rules, createDuckingRule()])}
+        className="text-[9px] uppercase tracking-widest text-neutral-500 hover:text-emerald-300 transition-colors"
+      >
+        + Add Rule
+      </button>
+    </div>
+  );
+};
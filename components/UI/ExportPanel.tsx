@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { EXPORT_DURATIONS_MINUTES } from '../../services/TrackExport';
+
+interface ExportPanelProps {
+  canExport: boolean; // Something is playing
+  seed: number;
+  onExport: (durationSeconds: number) => Promise<void>;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ canExport, seed, onExport }) => {
+  const [minutes, setMinutes] = useState(EXPORT_DURATIONS_MINUTES[0]);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      await onExport(minutes * 60);
+    } catch (e) {
+      console.warn('[Export] Rendering failed.', e);
+      setError('The track could not be rendered. Try a shorter length.');
+    }
+    setIsRendering(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-indigo-400 text-xs uppercase tracking-widest">Export Track</h4>
+      <p className="text-xs">
+        Renders what is playing now, at your frequency and levels, as a WAV that loops seamlessly on a phone or sleep speaker.
+        The same seed (currently <span className="font-mono text-neutral-300">{seed}</span>) always gives the same track.
+      </p>
+
+      <div className="flex gap-2">
+        {EXPORT_DURATIONS_MINUTES.map(m => (
+          <button
+            key={m}
+            onClick={() => setMinutes(m)}
+            className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${minutes === m ? 'border-indigo-500/60 text-indigo-200' : 'border-neutral-800 text-neutral-500 hover:text-neutral-300'}`}
+          >
+            {m} min
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={handleExport}
+        disabled={!canExport || isRendering}
+        className="px-6 py-2 border border-neutral-700 text-neutral-300 hover:border-indigo-500/50 hover:text-indigo-100 transition-colors duration-300 text-xs uppercase tracking-widest disabled:opacity-30"
+      >
+        {isRendering ? 'Rendering…' : 'Export Track'}
+      </button>
+      {!canExport && <p className="text-[10px] text-neutral-600">Start a soundscape or harmony voice first.</p>}
+      {error && <p className="text-xs text-red-300" role="alert">{error}</p>}
+    </div>
+  );
+};
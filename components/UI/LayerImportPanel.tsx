@@ -0,0 +1,60 @@
+import React, { useRef } from 'react';
+import { UserLayer, UserLayerId } from '../../types';
+import { MAX_USER_LAYERS } from '../../services/UserLayers';
+
+interface LayerImportPanelProps {
+  layers: UserLayer[];
+  isImporting: boolean;
+  error: string | null; // Why the last file couldn't be imported
+  onImport: (files: File[]) => void;
+  onRemove: (id: UserLayerId) => void;
+}
+
+export const LayerImportPanel: React.FC<LayerImportPanelProps> = ({ layers, isImporting, error, onImport, onRemove }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onImport(files);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-emerald-400 text-xs uppercase tracking-widest">Your Sounds</h4>
+      <p className="text-xs">
+        Add your own recordings as garden layers, or drop audio files onto the garden. Silence at either end is trimmed,
+        and the end is blended into the start so the sound loops without a seam. Up to a minute of each file is kept, in this browser only.
+      </p>
+
+      <input ref={fileRef} type="file" accept="audio/*" multiple onChange={handleFiles} className="hidden" />
+      <button
+        onClick={() => fileRef.current?.click()}
+        disabled={isImporting || layers.length >= MAX_USER_LAYERS}
+        className="px-6 py-2 border border-neutral-700 text-neutral-300 hover:border-emerald-500/50 hover:text-emerald-100 transition-colors duration-300 text-xs uppercase tracking-widest disabled:opacity-30"
+      >
+        {isImporting ? 'Importing…' : 'Add Sound'}
+      </button>
+
+      {layers.length > 0 && (
+        <ul className="space-y-1 text-[10px] uppercase tracking-widest">
+          {layers.map(layer => (
+            <li key={layer.id} className="flex items-center gap-3">
+              <span className="w-1.5 h-1.5 rounded-full bg-emerald-400/70" />
+              <span className="text-neutral-300 truncate">{layer.name}</span>
+              <button
+                onClick={() => onRemove(layer.id)}
+                className="ml-auto text-neutral-600 hover:text-red-400 transition-colors"
+                aria-label={`Remove ${layer.name}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-red-300" role="alert">{error}</p>}
+    </div>
+  );
+};
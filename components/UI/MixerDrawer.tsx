@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChannelSettings, DuckingRule, GardenSpace, LayerId, MixerChannelId, MixerSettings, PitchPolicies, PitchPolicy, UserLayer } from '../../types';
+import { channelLabel, channelSettings, mixerChannels } from '../../services/Mixer';
+import { DuckingEditor } from './DuckingEditor';
+import { PitchPolicyEditor } from './PitchPolicyEditor';
+import { SpaceEditor } from './SpaceEditor';
+import { PitchFollow } from '../../services/PitchPolicy';
+import { masterLevelForMml } from '../../services/levels';
+import { MAX_OUTPUT_CEILING_DB, MIN_OUTPUT_CEILING_DB } from '../../services/Safety';
+
+interface MixerDrawerProps {
+  isOpen: boolean;
+  settings: MixerSettings;
+  onChange: (settings: MixerSettings) => void;
+  masterLevelDb: number;
+  onMasterLevelChange: (db: number) => void;
+  outputCeilingDb: number; // The limiter never lets the garden past this
+  onOutputCeilingChange: (db: number) => void;
+  normaliseLoudness: boolean;
+  onNormaliseLoudnessChange: (enabled: boolean) => void;
+  mmlDb: number | null; // Minimum masking level, if measured
+  duckingRules: DuckingRule[];
+  onDuckingRulesChange: (rules: DuckingRule[]) => void;
+  spatialEnabled: boolean;
+  onSpatialChange: (enabled: boolean) => void;
+  frequency: number;
+  pitchPolicies: PitchPolicies;
+  onPitchPolicyChange: (id: LayerId, policy: PitchPolicy) => void;
+  getPitchProfile: (id: LayerId) => { centroid: number; pitchFollow: PitchFollow } | null;
+  space: GardenSpace;
+  onSpaceChange: (space: GardenSpace) => void;
+  activeChannels: Set<MixerChannelId>;
+  getLevel: (id: MixerChannelId) => number;
+  userLayers: UserLayer[]; // Imported layers get a strip each
+}
+
+// Polls the channel meter every frame and writes straight to the DOM,
+// so meters don't re-render the whole drawer
+const LevelMeter: React.FC<{ id: MixerChannelId; getLevel: (id: MixerChannelId) => number }> = ({ id, getLevel }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    let smoothed = 0;
+    const tick = () => {
+      // Map RMS to a rough dB scale (-60dB .. 0dB)
+      const rms = getLevel(id);
+      const db = rms > 0 ? 20 * Math.log10(rms) : -60;
+      const level = Math.max(0, Math.min(1, (db + 60) / 60));
+      smoothed = level > smoothed ? level : smoothed * 0.92 + level * 0.08;
+      if (barRef.current) barRef.current.style.width = `${smoothed * 100}%`;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [id, getLevel]);
+
+  return (
+    <div className="w-16 h-1 bg-neutral-900 rounded-full overflow-hidden">
+      <div ref={barRef} className="h-full bg-emerald-500/70" style={{ width: '0%' }} />
+    </div>
+  );
+};
+
+const TAB_LABELS = { levels: 'Mixer', ducking: 'Ducking', pitch: 'Pitch', space: 'Space' };
+
+export const MixerDrawer: React.FC<MixerDrawerProps> = ({
+  isOpen,
+  settings,
+  onChange,
+  masterLevelDb,
+  onMasterLevelChange,
+  outputCeilingDb,
+  onOutputCeilingChange,
+  normaliseLoudness,
+  onNormaliseLoudnessChange,
+  mmlDb,
+  duckingRules,
+  onDuckingRulesChange,
+  spatialEnabled,
+  onSpatialChange,
+  frequency,
+  pitchPolicies,
+  onPitchPolicyChange,
+  getPitchProfile,
+  space,
+  onSpaceChange,
+  activeChannels,
+  getLevel,
+  userLayers
+}) => {
+  const [tab, setTab] = useState<'levels' | 'ducking' | 'pitch' | 'space'>('levels');
+
+  const updateChannel = (id: MixerChannelId, patch: Partial<ChannelSettings>) => {
+    onChange({ ...settings, [id]: { ...channelSettings(settings, id), ...patch } });
+  };
+
+  return (
+    <div
+      className={`
+        absolute bottom-24 left-8 md:left-12 z-30 w-[22rem] max-w-[calc(100vw-4rem)]
+        bg-black/70 backdrop-blur-md border border-neutral-800 p-5
+        transition-all duration-500 ease-out origin-bottom-left
+        ${isOpen ? 'opacity-100 translate-y-0 pointer-events-auto' : 'opacity-0 translate-y-4 pointer-events-none'}
+      `}
+    >
+      <div className="flex gap-6 border-b border-neutral-800 pb-2 mb-4">
+        {(['levels', 'ducking', 'pitch', 'space'] as const).map(t => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`text-[10px] uppercase tracking-[0.3em] transition-colors ${tab === t ? 'text-neutral-200' : 'text-neutral-600 hover:text-neutral-400'}`}
+          >
+            {TAB_LABELS[t]}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'ducking' && (
+        <div className="max-h-[50vh] overflow-y-auto pr-1">
+          <DuckingEditor rules={duckingRules} onChange={onDuckingRulesChange} userLayers={userLayers} />
+        </div>
+      )}
+
+      {tab === 'pitch' && (
+        <div className="max-h-[50vh] overflow-y-auto pr-1">
+          <PitchPolicyEditor
+            frequency={frequency}
+            policies={pitchPolicies}
+            onChange={onPitchPolicyChange}
+            getPitchProfile={getPitchProfile}
+            userLayers={userLayers}
+          />
+        </div>
+      )}
+
+      {tab === 'space' && (
+        <div className="max-h-[50vh] overflow-y-auto pr-1">
+          <SpaceEditor space={space} onSpaceChange={onSpaceChange} settings={settings} onChange={onChange} userLayers={userLayers} />
+        </div>
+      )}
+
+      <div className={`space-y-3 ${tab === 'levels' ? '' : 'hidden'}`}>
+        {/* Master level, with the level suggested by the MML measurement */}
+        <div className="flex items-center gap-3">
+          <span className="w-14 text-[9px] uppercase tracking-widest text-neutral-300">Master</span>
+          <div className="relative flex-1">
+            <input
+              type="range"
+              min={-40}
+              max={0}
+              step={0.5}
+              value={masterLevelDb}
+              onChange={e => onMasterLevelChange(parseFloat(e.target.value))}
+              className="w-full accent-emerald-500"
+              aria-label="Master level"
+            />
+            {mmlDb !== null && (
+              <div
+                className="absolute -bottom-2 w-px h-2 bg-amber-400/70 pointer-events-none"
+                style={{ left: `${((masterLevelForMml(mmlDb) + 40) / 40) * 100}%` }}
+                title="Just below your masking level"
+              />
+            )}
+          </div>
+          <span className="w-14 text-right font-mono text-[9px] text-neutral-500">{masterLevelDb.toFixed(1)} dB</span>
+        </div>
+
+        {/* Safety limiter: the loudest the garden can ever play */}
+        <div className="flex items-center gap-3 pb-2 border-b border-neutral-900">
+          <span className="w-14 text-[9px] uppercase tracking-widest text-neutral-300">Ceiling</span>
+          <input
+            type="range"
+            min={MIN_OUTPUT_CEILING_DB}
+            max={MAX_OUTPUT_CEILING_DB}
+            step={0.5}
+            value={outputCeilingDb}
+            onChange={e => onOutputCeilingChange(parseFloat(e.target.value))}
+            className="flex-1 accent-rose-500"
+            aria-label="Output ceiling"
+          />
+          <span className="w-14 text-right font-mono text-[9px] text-neutral-500">{outputCeilingDb.toFixed(1)} dB</span>
+        </div>
+
+        {/* Binaural spatialisation from garden positions */}
+        <button
+          onClick={() => onSpatialChange(!spatialEnabled)}
+          className="group flex items-center gap-3 pb-2"
+        >
+          <div className={`
+            w-2 h-2 rounded-full border transition-all duration-500
+            ${spatialEnabled
+              ? 'bg-emerald-400 border-emerald-400 shadow-[0_0_10px_rgba(52,211,153,0.5)]'
+              : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
+            }
+          `}></div>
+          <span className={`text-[9px] uppercase tracking-widest transition-colors ${spatialEnabled ? 'text-emerald-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
+            3D Audio (Headphones)
+          </span>
+        </button>
+
+        {/* Turns the whole mix down when many layers pile up, never up */}
+        <button
+          onClick={() => onNormaliseLoudnessChange(!normaliseLoudness)}
+          className="group flex items-center gap-3 pb-2"
+        >
+          <div className={`
+            w-2 h-2 rounded-full border transition-all duration-500
+            ${normaliseLoudness
+              ? 'bg-emerald-400 border-emerald-400 shadow-[0_0_10px_rgba(52,211,153,0.5)]'
+              : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
+            }
+          `}></div>
+          <span className={`text-[9px] uppercase tracking-widest transition-colors ${normaliseLoudness ? 'text-emerald-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
+            Level Normaliser
+          </span>
+        </button>
+
+        {mixerChannels(userLayers).map(id => {
+          const ch = channelSettings(settings, id);
+          const label = channelLabel(id, userLayers);
+          const isActive = activeChannels.has(id);
+          return (
+            <div key={id} className="flex items-center gap-3">
+              <span className={`w-14 truncate text-[9px] uppercase tracking-widest ${isActive ? 'text-emerald-200' : 'text-neutral-600'}`} title={label}>
+                {label}
+              </span>
+
+              <div className="flex flex-col gap-1.5">
+                <input
+                  type="range"
+                  min={0}
+                  max={1.5}
+                  step={0.01}
+                  value={ch.gain}
+                  onChange={e => updateChannel(id, { gain: parseFloat(e.target.value) })}
+                  className="w-16 accent-emerald-500"
+                  aria-label={`${label} level`}
+                />
+                <LevelMeter id={id} getLevel={getLevel} />
+              </div>
+
+              <input
+                type="range"
+                min={-1}
+                max={1}
+                step={0.05}
+                value={ch.pan}
+                onChange={e => updateChannel(id, { pan: parseFloat(e.target.value) })}
+                onDoubleClick={() => updateChannel(id, { pan: 0 })}
+                className="w-12 accent-neutral-400"
+                aria-label={`${label} pan`}
+              />
+
+              <button
+                onClick={() => updateChannel(id, { muted: !ch.muted })}
+                className={`w-5 h-5 text-[9px] border transition-colors ${ch.muted ? 'border-red-500/60 text-red-300' : 'border-neutral-800 text-neutral-600 hover:text-neutral-300'}`}
+                aria-label={`Mute ${label}`}
+              >
+                M
+              </button>
+              <button
+                onClick={() => updateChannel(id, { solo: !ch.solo })}
+                className={`w-5 h-5 text-[9px] border transition-colors ${ch.solo ? 'border-amber-500/60 text-amber-300' : 'border-neutral-800 text-neutral-600 hover:text-neutral-300'}`}
+                aria-label={`Solo ${label}`}
+              >
+                S
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
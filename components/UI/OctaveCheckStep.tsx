@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Ear } from '../../types';
+import { MAX_MATCH_FREQ, MIN_MATCH_FREQ, roundFrequency } from '../../services/frequency';
+
+interface OctaveCheckStepProps {
+  ear: Ear;
+  frequency: number; // Frequency picked on the slider
+  // Plays the tones in order; returns a function that silences them
+  playSequence: (frequencies: number[]) => () => void;
+  onComplete: (frequency: number, confidence: number) => void;
+  onCancel: () => void;
+}
+
+// Trials come in rounds of two. A round whose answers agree ends the check;
+// otherwise another round is run, up to MAX_ROUNDS.
+const TRIALS_PER_ROUND = 2;
+const MAX_ROUNDS = 3;
+const TONE_DURATION = 1.0;
+const TONE_GAP = 0.5;
+const LABELS = ['A', 'B', 'C'];
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Result of a finished check: the most-picked candidate (ties favour the
+// original pick) and the share of all trials that chose it
+const summarise = (answers: number[], original: number) => {
+  const counts = new Map<number, number>();
+  answers.forEach(f => counts.set(f, (counts.get(f) ?? 0) + 1));
+  let best = original;
+  let bestCount = counts.get(original) ?? 0;
+  counts.forEach((count, f) => {
+    if (count > bestCount) {
+      best = f;
+      bestCount = count;
+    }
+  });
+  return { frequency: best, confidence: bestCount / answers.length };
+};
+
+export const OctaveCheckStep: React.FC<OctaveCheckStepProps> = ({
+  ear,
+  frequency,
+  playSequence,
+  onComplete,
+  onCancel
+}) => {
+  const candidates = useMemo(
+    () => [frequency / 2, frequency, frequency * 2].map(roundFrequency).filter(f => f >= MIN_MATCH_FREQ && f <= MAX_MATCH_FREQ),
+    [frequency]
+  );
+
+  const [order, setOrder] = useState<number[]>(() => shuffle(candidates));
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [hasListened, setHasListened] = useState(false);
+  const timers = useRef<number[]>([]);
+  const cancelSequence = useRef<(() => void) | null>(null);
+
+  // Stops the tones as well as the UI, so nothing keeps sounding after
+  // leaving the step or starting over
+  const stopPlayback = () => {
+    timers.current.forEach(id => window.clearTimeout(id));
+    timers.current = [];
+    cancelSequence.current?.();
+    cancelSequence.current = null;
+  };
+
+  useEffect(() => stopPlayback, []);
+
+  const round = Math.floor(answers.length / TRIALS_PER_ROUND) + 1;
+  const trialInRound = (answers.length % TRIALS_PER_ROUND) + 1;
+
+  const handlePlay = () => {
+    stopPlayback();
+    cancelSequence.current = playSequence(order);
+    order.forEach((_, i) => {
+      timers.current.push(window.setTimeout(() => setPlayingIndex(i), 50 + i * (TONE_DURATION + TONE_GAP) * 1000));
+    });
+    timers.current.push(window.setTimeout(() => {
+      setPlayingIndex(null);
+      setHasListened(true);
+    }, 50 + order.length * (TONE_DURATION + TONE_GAP) * 1000));
+  };
+
+  const handleAnswer = (choice: number) => {
+    stopPlayback();
+    setPlayingIndex(null);
+    const next = [...answers, choice];
+
+    if (next.length % TRIALS_PER_ROUND === 0) {
+      const roundAnswers = next.slice(-TRIALS_PER_ROUND);
+      const agree = roundAnswers.every(f => f === roundAnswers[0]);
+      if (agree || next.length >= TRIALS_PER_ROUND * MAX_ROUNDS) {
+        const result = summarise(next, frequency);
+        onComplete(result.frequency, result.confidence);
+        return;
+      }
+    }
+
+    setAnswers(next);
+    setOrder(shuffle(candidates));
+    setHasListened(false);
+  };
+
+  const isRepeat = round > 1 && trialInRound === 1;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none z-10 bg-black/40 backdrop-blur-sm transition-all duration-1000">
+      <div className="pointer-events-auto max-w-md w-full p-8 text-center space-y-12">
+
+        {/* Header */}
+        <div className="space-y-4">
+          <div className="text-[10px] uppercase tracking-[0.3em] text-neutral-600">
+            Step 1 of 3 · {ear === 'left' ? 'Left Ear' : 'Right Ear'} · Trial {answers.length + 1}
+          </div>
+          <h2 className="text-3xl font-light text-neutral-200 tracking-[0.2em] uppercase">Octave Check</h2>
+          <p className="text-neutral-400 font-light text-sm leading-relaxed">
+            Pitch is easy to mistake by an octave. Listen to the three tones, <br/>
+            then pick the one closest to your ringing.
+          </p>
+          {isRepeat && (
+            <p className="text-amber-400/80 text-[10px] uppercase tracking-widest">
+              Your answers differed, so let's listen again
+            </p>
+          )}
+        </div>
+
+        {/* Candidates */}
+        <div className="flex justify-center gap-6">
+          {order.map((f, i) => (
+            <button
+              key={`${answers.length}-${f}`}
+              onClick={() => handleAnswer(f)}
+              disabled={!hasListened}
+              className={`
+                w-16 h-16 rounded-full border font-serif text-lg transition-all duration-300
+                disabled:opacity-40 disabled:cursor-not-allowed
+                ${playingIndex === i
+                  ? 'border-emerald-400 text-emerald-100 shadow-[0_0_20px_rgba(16,185,129,0.4)] scale-110'
+                  : 'border-neutral-700 text-neutral-400 hover:border-emerald-500/50 hover:text-emerald-100'
+                }
+              `}
+            >
+              {LABELS[i]}
+            </button>
+          ))}
+        </div>
+
+        {/* Controls */}
+        <div className="space-y-6">
+          <div className="flex justify-center">
+            <button
+              onClick={handlePlay}
+              disabled={playingIndex !== null}
+              className="px-6 py-2 border border-neutral-700 text-neutral-300 hover:border-emerald-500/50 hover:text-emerald-100 transition-colors duration-300 text-sm uppercase tracking-widest disabled:opacity-40"
+            >
+              {hasListened ? 'Play Again' : 'Play Tones'}
+            </button>
+          </div>
+          <div className="flex justify-center text-[10px] uppercase tracking-widest">
+            <button onClick={() => { stopPlayback(); onCancel(); }} className="text-neutral-600 hover:text-neutral-300 transition-colors">Back</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { PianoMode, PianoSettings } from '../../types';
+import { MAX_PIANO_TEMPO, MIN_PIANO_TEMPO, PIANO_MODES, pianoTonic } from '../../services/Piano';
+import { noteName } from '../../services/frequency';
+
+interface PianoControlsProps {
+  settings: PianoSettings;
+  onChange: (settings: PianoSettings) => void;
+  frequency: number; // The matched frequency, which sets the key
+}
+
+export const PianoControls: React.FC<PianoControlsProps> = ({ settings, onChange, frequency }) => {
+  const tonic = noteName(pianoTonic(frequency));
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-indigo-400 text-xs uppercase tracking-widest">Ambient Piano</h4>
+      <p className="text-xs">
+        The piano plays in the key of your frequency, moved down into a comfortable octave
+        (now <span className="font-mono text-neutral-300">{tonic.name.replace(/\d+$/, '')}</span>).
+        Choose the scale and how fast it moves; changes are heard from the next phrase.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(PIANO_MODES) as PianoMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...settings, mode })}
+            className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${settings.mode === mode ? 'border-indigo-500/60 text-indigo-200' : 'border-neutral-800 text-neutral-500 hover:text-neutral-300'}`}
+          >
+            {PIANO_MODES[mode].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 text-[10px] uppercase tracking-widest">
+        <span className="text-neutral-500">Tempo</span>
+        <input
+          type="range"
+          min={MIN_PIANO_TEMPO}
+          max={MAX_PIANO_TEMPO}
+          step={1}
+          value={settings.tempo}
+          onChange={e => onChange({ ...settings, tempo: parseInt(e.target.value, 10) })}
+          className="flex-1 accent-indigo-500"
+          aria-label="Piano tempo"
+        />
+        <span className="w-14 text-right font-mono text-neutral-400">{settings.tempo} BPM</span>
+      </div>
+
+      {/* Held through each phrase, so its notes ring into one another */}
+      <button
+        onClick={() => onChange({ ...settings, pedal: !settings.pedal })}
+        className="group flex items-center gap-3"
+      >
+        <div className={`
+          w-2 h-2 rounded-full border transition-all duration-500
+          ${settings.pedal
+            ? 'bg-indigo-400 border-indigo-400 shadow-[0_0_10px_rgba(99,102,241,0.5)]'
+            : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
+          }
+        `}></div>
+        <span className={`text-[10px] uppercase tracking-widest transition-colors ${settings.pedal ? 'text-indigo-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
+          Sustain Pedal
+        </span>
+      </button>
+    </div>
+  );
+};
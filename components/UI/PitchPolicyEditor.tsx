@@ -0,0 +1,83 @@
+import React from 'react';
+import { LayerId, PitchPolicies, PitchPolicy, UserLayer } from '../../types';
+import { channelLabel, mixerChannels } from '../../services/Mixer';
+import { EMPHASIS_WIDTH_OCTAVES, PITCH_POLICIES, PITCH_POLICY_LABELS, PitchFollow, energyCentre, policyFor } from '../../services/PitchPolicy';
+
+interface PitchPolicyEditorProps {
+  frequency: number; // The matched frequency
+  policies: PitchPolicies;
+  onChange: (id: LayerId, policy: PitchPolicy) => void;
+  getPitchProfile: (id: LayerId) => { centroid: number; pitchFollow: PitchFollow } | null;
+  userLayers: UserLayer[];
+}
+
+// The preview strip spans these frequencies on a log scale
+const STRIP_MIN_HZ = 125;
+const STRIP_MAX_HZ = 16000;
+
+const stripPosition = (hz: number) => {
+  const x = Math.log2(hz / STRIP_MIN_HZ) / Math.log2(STRIP_MAX_HZ / STRIP_MIN_HZ);
+  return `${Math.max(0, Math.min(1, x)) * 100}%`;
+};
+
+const formatOctaves = (octaves: number) =>
+  Math.abs(octaves) < 0.05 ? 'on match' : `${octaves > 0 ? '+' : '−'}${Math.abs(octaves).toFixed(1)} oct`;
+
+export const PitchPolicyEditor: React.FC<PitchPolicyEditorProps> = ({ frequency, policies, onChange, getPitchProfile, userLayers }) => {
+  const layers = mixerChannels(userLayers).filter((id): id is LayerId => id !== 'DRONE' && id !== 'PIANO');
+
+  return (
+    <div className="space-y-4">
+      <p className="text-[10px] text-neutral-600 tracking-wide">
+        Where each layer's energy sits against your frequency (amber). Changes apply straight away.
+      </p>
+
+      {layers.map(id => {
+        const label = channelLabel(id, userLayers);
+        const policy = policyFor(policies, id);
+        const profile = getPitchProfile(id);
+        const centre = profile ? energyCentre(profile.centroid, frequency, profile.pitchFollow, policy) : null;
+        return (
+          <div key={id} className="space-y-2 border-b border-neutral-900 pb-3">
+            <div className="flex items-center gap-2">
+              <span className="w-14 truncate text-[9px] uppercase tracking-widest text-neutral-300" title={label}>{label}</span>
+              {PITCH_POLICIES.map(p => (
+                <button
+                  key={p}
+                  onClick={() => onChange(id, p)}
+                  className={`px-1.5 py-0.5 text-[9px] uppercase tracking-widest border transition-colors ${policy === p ? 'border-emerald-500/60 text-emerald-200' : 'border-neutral-800 text-neutral-600 hover:text-neutral-300'}`}
+                  aria-pressed={policy === p}
+                >
+                  {PITCH_POLICY_LABELS[p]}
+                </button>
+              ))}
+              {centre !== null && (
+                <span className="ml-auto font-mono text-[9px] text-neutral-500">{formatOctaves(Math.log2(centre / frequency))}</span>
+              )}
+            </div>
+
+            <div className="relative h-2 bg-neutral-900 rounded-full">
+              {policy === 'EMPHASIS' && (
+                <div
+                  className="absolute inset-y-0 bg-emerald-500/20 rounded-full"
+                  style={{
+                    left: stripPosition(frequency * Math.pow(2, -EMPHASIS_WIDTH_OCTAVES / 2)),
+                    right: `calc(100% - ${stripPosition(frequency * Math.pow(2, EMPHASIS_WIDTH_OCTAVES / 2))})`,
+                  }}
+                />
+              )}
+              <div className="absolute -inset-y-0.5 w-px bg-amber-400/80" style={{ left: stripPosition(frequency) }} />
+              {centre !== null && (
+                <div
+                  className="absolute top-1/2 w-2 h-2 -ml-1 -translate-y-1/2 rounded-full bg-emerald-400"
+                  style={{ left: stripPosition(centre) }}
+                  title={`Centred on ${Math.round(centre)} Hz`}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
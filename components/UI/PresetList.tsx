@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Preset } from '../../types';
+import { BUILT_IN_PRESETS } from '../../services/Presets';
+
+interface PresetListProps {
+  userPresets: Preset[];
+  activePresetId: string | undefined;
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => void; // Saves the current mix as a new preset
+  onChange: (presets: Preset[]) => void; // Rename, reorder or delete
+  canSave: boolean;
+}
+
+const PresetButton: React.FC<{ preset: Preset; isActive: boolean; onApply: () => void }> = ({ preset, isActive, onApply }) => (
+  <button
+    onClick={onApply}
+    className={`
+      group flex items-center gap-4 transition-all duration-500 ease-out
+      ${isActive ? 'translate-x-0' : 'translate-x-2 hover:translate-x-0'}
+    `}
+  >
+    <span className={`text-[10px] uppercase tracking-widest transition-colors duration-300 ${isActive ? 'text-emerald-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
+      {preset.name}
+    </span>
+    <div className={`
+      w-2 h-2 rounded-full border transition-all duration-500
+      ${isActive
+        ? 'bg-emerald-400 border-emerald-400 shadow-[0_0_10px_rgba(52,211,153,0.5)]'
+        : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
+      }
+    `}></div>
+  </button>
+);
+
+export const PresetList: React.FC<PresetListProps> = ({
+  userPresets,
+  activePresetId,
+  onApply,
+  onSave,
+  onChange,
+  canSave
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const submitSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+    setIsNaming(false);
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= userPresets.length) return;
+    const next = [...userPresets];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const rename = (id: string, newName: string) => {
+    const trimmed = newName.trim();
+    if (!trimmed) return;
+    onChange(userPresets.map(p => (p.id === id ? { ...p, name: trimmed } : p)));
+  };
+
+  const remove = (id: string) => {
+    onChange(userPresets.filter(p => p.id !== id));
+  };
+
+  return (
+    <>
+      {BUILT_IN_PRESETS.map(preset => (
+        <PresetButton key={preset.id} preset={preset} isActive={activePresetId === preset.id} onApply={() => onApply(preset)} />
+      ))}
+
+      {/* Saved presets */}
+      {userPresets.map((preset, i) => isEditing ? (
+        <div key={preset.id} className="flex items-center gap-2 text-[10px] uppercase tracking-widest">
+          <input
+            defaultValue={preset.name}
+            onBlur={e => rename(preset.id, e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            className="w-28 bg-transparent border-b border-neutral-800 text-right text-neutral-300 focus:outline-none focus:border-emerald-500/60"
+            aria-label="Preset name"
+          />
+          <button onClick={() => move(i, -1)} disabled={i === 0} className="text-neutral-600 hover:text-neutral-300 disabled:opacity-30" aria-label="Move up">↑</button>
+          <button onClick={() => move(i, 1)} disabled={i === userPresets.length - 1} className="text-neutral-600 hover:text-neutral-300 disabled:opacity-30" aria-label="Move down">↓</button>
+          <button onClick={() => remove(preset.id)} className="text-neutral-600 hover:text-red-400" aria-label={`Delete ${preset.name}`}>✕</button>
+        </div>
+      ) : (
+        <PresetButton key={preset.id} preset={preset} isActive={activePresetId === preset.id} onApply={() => onApply(preset)} />
+      ))}
+
+      {/* Save / Edit */}
+      {isNaming ? (
+        <form onSubmit={submitSave} className="flex items-center gap-3 text-[9px] uppercase tracking-widest">
+          <input
+            autoFocus
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Escape') setIsNaming(false); }}
+            placeholder="Preset name"
+            className="w-28 bg-transparent border-b border-neutral-800 text-right text-neutral-300 placeholder:text-neutral-700 focus:outline-none focus:border-emerald-500/60"
+          />
+          <button type="submit" disabled={!name.trim()} className="text-neutral-500 hover:text-emerald-300 transition-colors disabled:opacity-30">Save</button>
+        </form>
+      ) : (
+        <div className="flex gap-4 text-[9px] uppercase tracking-widest">
+          {userPresets.length > 0 && (
+            <button onClick={() => setIsEditing(!isEditing)} className="text-neutral-700 hover:text-neutral-400 transition-colors">
+              {isEditing ? 'Done' : 'Edit'}
+            </button>
+          )}
+          {!isEditing && (
+            <button
+              onClick={() => setIsNaming(true)}
+              disabled={!canSave}
+              className="text-neutral-700 hover:text-emerald-300 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            >
+              Save Current
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Profile } from '../../types';
+import { EARS, combineEarFrequencies } from '../../services/EarStage';
+import { formatFrequency } from '../../services/frequency';
+
+interface ProfileMenuProps {
+  profiles: Profile[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  align?: 'left' | 'center';
+}
+
+// Most recent matches shown under the active profile
+const HISTORY_ROWS = 5;
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const ProfileMenu: React.FC<ProfileMenuProps> = ({
+  profiles,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  align = 'left'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const active = profiles.find(p => p.id === activeId) ?? null;
+  const history = active ? active.history.slice(-HISTORY_ROWS).reverse() : [];
+
+  const submitNew = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = editName.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-[10px] uppercase tracking-[0.3em] text-neutral-500 hover:text-emerald-300 transition-colors border-b border-transparent hover:border-emerald-900 pb-1"
+      >
+        {active ? active.name : 'Profiles'}
+      </button>
+
+      <div
+        className={`
+          absolute top-8 ${align === 'center' ? 'left-1/2 -translate-x-1/2' : 'left-0'} z-40 w-72 text-left
+          bg-black/80 backdrop-blur-md border border-neutral-800 p-4 space-y-4
+          transition-all duration-300 ease-out
+          ${isOpen ? 'opacity-100 translate-y-0 pointer-events-auto' : 'opacity-0 -translate-y-2 pointer-events-none'}
+        `}
+      >
+        {/* Profile list */}
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-3 text-[10px] uppercase tracking-widest">
+              {editingId === profile.id ? (
+                <form onSubmit={submitRename} className="flex-1">
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={e => setEditName(e.target.value)}
+                    onBlur={submitRename}
+                    className="w-full bg-transparent border-b border-neutral-700 text-neutral-200 focus:outline-none focus:border-emerald-500/60"
+                    aria-label="Profile name"
+                  />
+                </form>
+              ) : (
+                <button
+                  onClick={() => { onSelect(profile.id); setIsOpen(false); }}
+                  className={`flex-1 text-left truncate transition-colors ${profile.id === activeId ? 'text-emerald-200' : 'text-neutral-500 hover:text-neutral-300'}`}
+                >
+                  {profile.name}
+                  <span className="ml-2 font-mono normal-case text-neutral-600">
+                    {profile.confirmed ? formatFrequency(combineEarFrequencies(profile.ears)) : 'not tuned'}
+                  </span>
+                </button>
+              )}
+              <button
+                onClick={() => { setEditingId(profile.id); setEditName(profile.name); }}
+                className="text-neutral-700 hover:text-neutral-400 transition-colors"
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => onDelete(profile.id)}
+                disabled={profiles.length <= 1}
+                className="text-neutral-700 hover:text-red-400 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                aria-label={`Delete ${profile.name}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* New profile */}
+        <form onSubmit={submitNew} className="flex items-center gap-3 text-[10px] uppercase tracking-widest border-t border-neutral-900 pt-3">
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="New profile name"
+            className="flex-1 bg-transparent border-b border-neutral-800 text-neutral-300 placeholder:text-neutral-700 focus:outline-none focus:border-emerald-500/60"
+          />
+          <button type="submit" disabled={!newName.trim()} className="text-neutral-500 hover:text-emerald-300 transition-colors disabled:opacity-30">
+            Add
+          </button>
+        </form>
+
+        {/* Frequency history of the active profile */}
+        {history.length > 0 && (
+          <div className="border-t border-neutral-900 pt-3 space-y-1">
+            <div className="text-[9px] uppercase tracking-widest text-neutral-600 mb-2">Match History</div>
+            {history.map(entry => (
+              <div key={entry.date} className="flex justify-between text-[10px] font-mono text-neutral-500">
+                <span>{formatDate(entry.date)}</span>
+                <span>
+                  {EARS.map(ear => entry.ears[ear].affected ? formatFrequency(entry.ears[ear].frequency) : '—').join(' / ')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { MAX_SEED, randomSeed } from '../../services/random';
+
+interface SeedControlProps {
+  seed: number;
+  onChange: (seed: number) => void;
+}
+
+// The seed behind the garden's layout, the piano and the layers' variation
+export const SeedControl: React.FC<SeedControlProps> = ({ seed, onChange }) => {
+  const [draft, setDraft] = useState(String(seed));
+
+  useEffect(() => { setDraft(String(seed)); }, [seed]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft !== '' && Number.isInteger(parsed) && parsed >= 0 && parsed <= MAX_SEED) {
+      if (parsed !== seed) onChange(parsed);
+    } else {
+      setDraft(String(seed));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-neutral-300 text-xs uppercase tracking-widest">Seed</h4>
+      <p className="text-xs">
+        Every generative detail, from the shape of the trees to the piano's notes, follows this number.
+        Enter a seed to bring back a garden exactly; saved presets and shared links keep theirs.
+      </p>
+      <div className="flex items-center gap-3 text-[10px] uppercase tracking-widest">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={draft}
+          onChange={e => setDraft(e.target.value.replace(/\D/g, ''))}
+          onBlur={commit}
+          onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="w-32 bg-transparent border-b border-neutral-800 font-mono text-neutral-300 focus:outline-none focus:border-emerald-500/60"
+          aria-label="Seed"
+        />
+        <button onClick={() => onChange(randomSeed())} className="text-neutral-600 hover:text-neutral-300 transition-colors">
+          New
+        </button>
+      </div>
+    </div>
+  );
+};
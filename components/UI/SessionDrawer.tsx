@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+
+interface SessionDrawerProps {
+  isOpen: boolean;
+  endsAt: number | null; // Timestamp (ms) the session stops at, null when no timer runs
+  onStart: (minutes: number) => void;
+  onCancel: () => void;
+  fadeSeconds: number;
+  onFadeChange: (seconds: number) => void;
+  sleepMode: boolean;
+  onSleepChange: (enabled: boolean) => void;
+}
+
+const SESSION_LENGTHS = [15, 30, 60, 90];
+const FADE_OPTIONS = [30, 60, 180, 300];
+
+const formatRemaining = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const formatFade = (seconds: number) => (seconds < 60 ? `${seconds}s` : `${seconds / 60}m`);
+
+export const SessionDrawer: React.FC<SessionDrawerProps> = ({
+  isOpen,
+  endsAt,
+  onStart,
+  onCancel,
+  fadeSeconds,
+  onFadeChange,
+  sleepMode,
+  onSleepChange
+}) => {
+  const [customMinutes, setCustomMinutes] = useState(45);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the countdown only while a timer runs and the drawer is visible
+  useEffect(() => {
+    if (endsAt === null || !isOpen) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [endsAt, isOpen]);
+
+  const remaining = endsAt !== null ? endsAt - now : 0;
+  const isFading = endsAt !== null && remaining <= fadeSeconds * 1000;
+
+  return (
+    <div
+      className={`
+        absolute bottom-24 left-8 md:left-12 z-30 w-[22rem] max-w-[calc(100vw-4rem)]
+        bg-black/70 backdrop-blur-md border border-neutral-800 p-5 space-y-5
+        transition-all duration-500 ease-out origin-bottom-left
+        ${isOpen ? 'opacity-100 translate-y-0 pointer-events-auto' : 'opacity-0 translate-y-4 pointer-events-none'}
+      `}
+    >
+      <div className="text-[10px] uppercase tracking-[0.3em] text-neutral-200 border-b border-neutral-800 pb-2">Session</div>
+
+      {/* Timer */}
+      {endsAt !== null ? (
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="font-mono text-2xl text-indigo-200">{formatRemaining(remaining)}</div>
+            <div className="text-[9px] uppercase tracking-widest text-neutral-600 mt-1">
+              {isFading ? 'Fading out' : 'Until the garden fades'}
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="text-[10px] uppercase tracking-widest text-neutral-500 hover:text-red-400 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-4">
+            {SESSION_LENGTHS.map(minutes => (
+              <button
+                key={minutes}
+                onClick={() => onStart(minutes)}
+                className="text-[10px] uppercase tracking-widest text-neutral-400 hover:text-indigo-200 transition-colors"
+              >
+                {minutes}m
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-[10px] uppercase tracking-widest text-neutral-600">
+            <span>Custom</span>
+            <input
+              type="number"
+              min={1}
+              max={480}
+              value={customMinutes}
+              onChange={e => setCustomMinutes(Math.max(1, Math.min(480, parseInt(e.target.value, 10) || 1)))}
+              className="w-16 bg-transparent border-b border-neutral-800 text-neutral-300 font-mono text-xs text-center focus:outline-none focus:border-indigo-500/60"
+              aria-label="Custom session length in minutes"
+            />
+            <span>min</span>
+            <button
+              onClick={() => onStart(customMinutes)}
+              className="ml-auto text-neutral-400 hover:text-indigo-200 transition-colors"
+            >
+              Start
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Fade length */}
+      <div className="flex items-center gap-4 text-[10px] uppercase tracking-widest">
+        <span className="text-neutral-600 w-14">Fade</span>
+        {FADE_OPTIONS.map(seconds => (
+          <button
+            key={seconds}
+            onClick={() => onFadeChange(seconds)}
+            disabled={endsAt !== null}
+            className={`transition-colors disabled:opacity-40 ${fadeSeconds === seconds ? 'text-indigo-200' : 'text-neutral-600 hover:text-neutral-400'}`}
+          >
+            {formatFade(seconds)}
+          </button>
+        ))}
+      </div>
+
+      {/* Sleep mode */}
+      <button
+        onClick={() => onSleepChange(!sleepMode)}
+        className="group flex items-center gap-3"
+      >
+        <div className={`
+          w-2 h-2 rounded-full border transition-all duration-500
+          ${sleepMode
+            ? 'bg-indigo-400 border-indigo-400 shadow-[0_0_10px_rgba(129,140,248,0.5)]'
+            : 'bg-transparent border-neutral-700 group-hover:border-neutral-500'
+          }
+        `}></div>
+        <span className={`text-[10px] uppercase tracking-widest transition-colors duration-300 ${sleepMode ? 'text-indigo-200' : 'text-neutral-600 group-hover:text-neutral-400'}`}>
+          Sleep Mode
+        </span>
+        <span className="text-[9px] tracking-widest text-neutral-700 normal-case">dims and stills the garden</span>
+      </button>
+    </div>
+  );
+};
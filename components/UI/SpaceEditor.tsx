@@ -0,0 +1,54 @@
+import React from 'react';
+import { GardenSpace, MixerSettings, UserLayer } from '../../types';
+import { channelLabel, channelSettings, mixerChannels } from '../../services/Mixer';
+import { GARDEN_SPACES } from '../../services/Reverb';
+
+interface SpaceEditorProps {
+  space: GardenSpace;
+  onSpaceChange: (space: GardenSpace) => void;
+  settings: MixerSettings;
+  onChange: (settings: MixerSettings) => void;
+  userLayers: UserLayer[];
+}
+
+export const SpaceEditor: React.FC<SpaceEditorProps> = ({ space, onSpaceChange, settings, onChange, userLayers }) => (
+  <div className="space-y-4">
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(GARDEN_SPACES) as GardenSpace[]).map(s => (
+        <button
+          key={s}
+          onClick={() => onSpaceChange(s)}
+          className={`px-1.5 py-0.5 text-[9px] uppercase tracking-widest border transition-colors ${space === s ? 'border-emerald-500/60 text-emerald-200' : 'border-neutral-800 text-neutral-600 hover:text-neutral-300'}`}
+          aria-pressed={space === s}
+        >
+          {GARDEN_SPACES[s].label}
+        </button>
+      ))}
+    </div>
+
+    <p className="text-[10px] text-neutral-600 tracking-wide">How much of each layer reaches the space.</p>
+
+    <div className="space-y-2">
+      {mixerChannels(userLayers).map(id => {
+        const ch = channelSettings(settings, id);
+        const label = channelLabel(id, userLayers);
+        return (
+          <div key={id} className="flex items-center gap-3">
+            <span className="w-14 truncate text-[9px] uppercase tracking-widest text-neutral-300" title={label}>{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={ch.send}
+              onChange={e => onChange({ ...settings, [id]: { ...ch, send: parseFloat(e.target.value) } })}
+              className="flex-1 accent-emerald-500"
+              aria-label={`${label} reverb send`}
+            />
+            <span className="w-8 text-right font-mono text-[9px] text-neutral-500">{Math.round(ch.send * 100)}%</span>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
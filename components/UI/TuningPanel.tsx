@@ -1,47 +1,106 @@
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Ear, EarMatches, ToneCharacter } from '../../types';
+import { EARS } from '../../services/EarStage';
+import { TONE_TYPES, TONE_TYPE_LABELS, hasBandwidth } from '../../services/MatchingTone';
+import {
+  FINE_SPAN_OCTAVES,
+  FREQUENCY_RANGES,
+  FrequencyRange,
+  clampMatchFrequency,
+  formatFrequency,
+  formatFrequencyShort,
+  noteName,
+  rangeForFrequency,
+  roundFrequency,
+  shiftByCents
+} from '../../services/frequency';
+
+const COARSE_STEP_CENTS = 100;
+const FINE_STEP_CENTS = 10;
 
 interface TuningPanelProps {
-  frequency: number;
-  setFrequency: (val: number) => void;
+  ear: Ear; // Ear currently being matched
+  onEarChange: (ear: Ear) => void;
+  ears: EarMatches;
+  setFrequency: (val: number) => void; // Sets the current ear's frequency
+  setAffected: (ear: Ear, affected: boolean) => void;
+  toneCharacter: ToneCharacter; // Shared by both ears
+  onToneCharacterChange: (character: ToneCharacter) => void;
+  onCheckOctave: () => void; // Optional octave-confusion check for the current ear
   onConfirm: () => void;
   isPlaying: boolean;
   togglePlay: () => void;
 }
 
 export const TuningPanel: React.FC<TuningPanelProps> = ({ 
-  frequency, 
+  ear,
+  onEarChange,
+  ears,
   setFrequency, 
+  setAffected,
+  toneCharacter,
+  onToneCharacterChange,
+  onCheckOctave,
   onConfirm,
   isPlaying,
   togglePlay
 }) => {
-  // Configuration
-  const MIN_FREQ = 4500;
-  const MAX_FREQ = 10000;
+  const frequency = ears[ear].frequency;
+  const isAffected = ears[ear].affected;
+  const canConfirm = EARS.some(e => ears[e].affected);
+
+  // Range shown on the slider. Fine mode zooms to ±1/3 octave around the
+  // value it was entered at, so the thumb doesn't slide away while dragging.
+  const [range, setRange] = useState<FrequencyRange>(() => rangeForFrequency(frequency));
+  const [fineCentre, setFineCentre] = useState<number | null>(null);
+  const isFine = fineCentre !== null;
+
+  const MIN_FREQ = isFine ? clampMatchFrequency(fineCentre! * Math.pow(2, -FINE_SPAN_OCTAVES)) : range.min;
+  const MAX_FREQ = isFine ? clampMatchFrequency(fineCentre! * Math.pow(2, FINE_SPAN_OCTAVES)) : range.max;
   
   const trackRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
+  // Leave fine mode when switching ears or when the value leaves the zoom window
+  useEffect(() => {
+    setFineCentre(null);
+    setRange(rangeForFrequency(frequency));
+  }, [ear]);
+
+  useEffect(() => {
+    if (isFine && (frequency < MIN_FREQ || frequency > MAX_FREQ)) setFineCentre(frequency);
+  }, [frequency, isFine, MIN_FREQ, MAX_FREQ]);
+
+  const selectRange = (next: FrequencyRange) => {
+    setRange(next);
+    setFineCentre(null);
+    // Jump to the middle of the new range if the value lies outside it
+    if (isAffected && (frequency < next.min || frequency > next.max)) {
+      setFrequency(roundFrequency(Math.sqrt(next.min * next.max)));
+    }
+  };
+
   // Helper: Convert linear slider position (0-1) to logarithmic frequency
   const toLogFreq = useCallback((position: number) => {
     // formula: f = min * (max/min)^position
     // Clamp position 0-1
     const clampedPos = Math.max(0, Math.min(1, position));
-    return Math.round(MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, clampedPos));
-  }, []);
+    return roundFrequency(MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, clampedPos));
+  }, [MIN_FREQ, MAX_FREQ]);
 
   // Helper: Convert frequency to linear slider position (0-1) for UI rendering
   const fromLogFreq = useCallback((freq: number) => {
     // formula: position = log(freq/min) / log(max/min)
     const pos = Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ);
     return Math.max(0, Math.min(1, pos));
-  }, []);
+  }, [MIN_FREQ, MAX_FREQ]);
 
   // Current slider position (0 to 1) based on frequency
   const sliderPos = fromLogFreq(frequency);
+  const note = noteName(frequency);
 
   const updateFrequencyFromEvent = (clientX: number) => {
-    if (!trackRef.current) return;
+    if (!trackRef.current || !isAffected) return;
     const rect = trackRef.current.getBoundingClientRect();
     const x = clientX - rect.left;
     const width = rect.width;
@@ -49,7 +108,20 @@ export const TuningPanel: React.FC<TuningPanelProps> = ({
     setFrequency(toLogFreq(percentage));
   };
 
+  // Arrow keys step in cents: a semitone in coarse mode, 10 cents in fine
+  // mode, and a single cent with Shift held
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isAffected) return;
+    const direction = e.key === 'ArrowRight' || e.key === 'ArrowUp' ? 1
+      : e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -1 : 0;
+    if (direction === 0) return;
+    e.preventDefault();
+    const cents = e.shiftKey ? 1 : isFine ? FINE_STEP_CENTS : COARSE_STEP_CENTS;
+    setFrequency(roundFrequency(clampMatchFrequency(shiftByCents(frequency, direction * cents))));
+  };
+
   const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isAffected) return;
     setIsDragging(true);
     e.currentTarget.setPointerCapture(e.pointerId);
     updateFrequencyFromEvent(e.clientX);
@@ -71,30 +143,127 @@ export const TuningPanel: React.FC<TuningPanelProps> = ({
         
         {/* Header */}
         <div className="space-y-4">
+          <div className="text-[10px] uppercase tracking-[0.3em] text-neutral-600">Step 1 of 3</div>
           <h2 className="text-3xl font-light text-neutral-200 tracking-[0.2em] uppercase">Frequency Match</h2>
           <p className="text-neutral-400 font-light text-sm leading-relaxed">
-            Adjust the slider until the tone matches the sound inside your ear. <br/>
-            We will tune the environment to this frequency.
+            Match each ear on its own. The tone plays only in the selected ear. <br/>
+            We will tune each side of the environment to its own frequency.
           </p>
 
-          {/* Volume Warning */}
+          {/* Volume Warning: the app caps its own levels (calibration limit,
+              garden ceiling), but the device volume still sets what reaches the ear */}
           <div className="flex items-center justify-center gap-2 text-amber-400/90 text-[10px] uppercase tracking-widest bg-amber-900/20 py-2 px-4 rounded-sm border border-amber-900/30 mx-auto w-fit shadow-[0_0_15px_rgba(245,158,11,0.1)]">
             <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
                <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
                <line x1="12" y1="9" x2="12" y2="13"/>
                <line x1="12" y1="17" x2="12.01" y2="17"/>
             </svg>
-            <span>Caution: Lower volume before playing</span>
+            <span>Start with your device volume low: the app caps its own levels, not your device's</span>
           </div>
         </div>
 
+        {/* Ear Selection */}
+        <div className="space-y-4">
+          <div className="flex justify-center gap-10">
+            {EARS.map(e => (
+              <button
+                key={e}
+                onClick={() => onEarChange(e)}
+                className={`text-xs uppercase tracking-[0.3em] pb-1 border-b transition-colors duration-300 ${ear === e ? 'text-emerald-200 border-emerald-500/60' : 'text-neutral-600 border-transparent hover:text-neutral-400'}`}
+              >
+                {e === 'left' ? 'Left Ear' : 'Right Ear'}
+                <span className="block mt-1 font-mono text-[10px] tracking-widest text-neutral-500 normal-case">
+                  {ears[e].affected ? formatFrequency(ears[e].frequency) : 'No ringing'}
+                </span>
+                {ears[e].affected && ears[e].confidence !== null && (
+                  <span className="block mt-0.5 font-mono text-[9px] tracking-widest text-emerald-600 normal-case">
+                    {Math.round(ears[e].confidence! * 100)}% confident
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-center gap-2 text-[10px] uppercase tracking-widest text-neutral-500 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={!isAffected}
+              onChange={e => setAffected(ear, !e.target.checked)}
+              className="accent-emerald-600"
+            />
+            No ringing in this ear
+          </label>
+        </div>
+
+        {/* Sound Character */}
+        <div className="space-y-3">
+          <div className="text-[10px] uppercase tracking-widest text-neutral-600">Sound Character</div>
+          <div className="flex flex-wrap justify-center gap-2">
+            {TONE_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => onToneCharacterChange({ ...toneCharacter, type })}
+                className={`px-3 py-1 text-[10px] uppercase tracking-widest border transition-colors duration-300 ${toneCharacter.type === type ? 'border-emerald-500/60 text-emerald-200 bg-emerald-900/20' : 'border-neutral-800 text-neutral-500 hover:text-neutral-300'}`}
+              >
+                {TONE_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+          {hasBandwidth(toneCharacter.type) && (
+            <label className="flex items-center justify-center gap-3 text-[10px] uppercase tracking-widest text-neutral-500">
+              <span>Width</span>
+              <input
+                type="range"
+                min={1 / 12}
+                max={1}
+                step={1 / 12}
+                value={toneCharacter.bandwidth}
+                onChange={e => onToneCharacterChange({ ...toneCharacter, bandwidth: parseFloat(e.target.value) })}
+                className="w-32 accent-emerald-500"
+                aria-label="Sound width"
+              />
+              <span className="font-mono w-16 text-left">{(toneCharacter.bandwidth * 12).toFixed(0)}/12 oct</span>
+            </label>
+          )}
+        </div>
+
         {/* Slider Section */}
-        <div className="space-y-8 relative py-6">
+        <div className={`space-y-8 relative py-6 transition-opacity duration-500 ${isAffected ? 'opacity-100' : 'opacity-30'}`}>
+
+          {/* Range and Coarse/Fine */}
+          <div className="flex items-center justify-between text-[10px] uppercase tracking-widest">
+            <div className="flex gap-3">
+              {FREQUENCY_RANGES.map(r => (
+                <button
+                  key={r.id}
+                  onClick={() => selectRange(r)}
+                  disabled={!isAffected}
+                  className={`transition-colors duration-300 ${!isFine && range.id === r.id ? 'text-emerald-200' : 'text-neutral-600 hover:text-neutral-400'}`}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setFineCentre(isFine ? null : frequency)}
+              disabled={!isAffected}
+              className={`border-b pb-0.5 transition-colors duration-300 ${isFine ? 'text-emerald-200 border-emerald-500/60' : 'text-neutral-500 border-transparent hover:text-neutral-300'}`}
+            >
+              {isFine ? 'Fine' : 'Coarse'}
+            </button>
+          </div>
           
           {/* Interactive Container: Replaces Input for exact hit testing */}
           <div 
             ref={trackRef}
-            className="relative w-full h-12 flex items-center cursor-pointer touch-none select-none group"
+            role="slider"
+            tabIndex={isAffected ? 0 : -1}
+            aria-label="Frequency"
+            aria-valuemin={MIN_FREQ}
+            aria-valuemax={MAX_FREQ}
+            aria-valuenow={frequency}
+            aria-valuetext={`${formatFrequency(frequency)}, ${note.name}`}
+            onKeyDown={handleKeyDown}
+            className={`relative w-full h-12 flex items-center touch-none select-none group outline-none focus-visible:ring-1 focus-visible:ring-emerald-800 ${isAffected ? 'cursor-pointer' : 'cursor-not-allowed'}`}
             onPointerDown={handlePointerDown}
             onPointerMove={handlePointerMove}
             onPointerUp={handlePointerUp}
@@ -117,10 +286,18 @@ export const TuningPanel: React.FC<TuningPanelProps> = ({
           </div>
           
           {/* Labels */}
-          <div className="flex justify-between text-xs text-neutral-500 font-mono tracking-widest -mt-4">
-            <span>4.5kHz</span>
-            <span className="text-emerald-400 text-base">{frequency} Hz</span>
-            <span>10kHz</span>
+          <div className="flex justify-between items-start text-xs text-neutral-500 font-mono tracking-widest -mt-4">
+            <span>{formatFrequencyShort(MIN_FREQ)}</span>
+            <span className="flex flex-col items-center gap-1">
+              <span className="text-emerald-400 text-base">{formatFrequency(frequency)}</span>
+              <span className="text-[10px] text-neutral-500">
+                {note.name} {note.cents >= 0 ? '+' : '−'}{Math.abs(note.cents)}¢
+              </span>
+            </span>
+            <span>{formatFrequencyShort(MAX_FREQ)}</span>
+          </div>
+          <div className="text-[9px] uppercase tracking-widest text-neutral-600 -mt-4">
+            Arrow keys step {isFine ? FINE_STEP_CENTS : COARSE_STEP_CENTS} cents · Shift for 1 cent
           </div>
         </div>
 
@@ -128,16 +305,29 @@ export const TuningPanel: React.FC<TuningPanelProps> = ({
         <div className="flex justify-center gap-6 pt-4">
           <button 
             onClick={togglePlay}
-            className="px-6 py-2 border border-neutral-700 text-neutral-300 hover:border-emerald-500/50 hover:text-emerald-100 transition-colors duration-300 text-sm uppercase tracking-widest"
+            disabled={!isAffected && !isPlaying}
+            className="px-6 py-2 disabled:opacity-30 border border-neutral-700 text-neutral-300 hover:border-emerald-500/50 hover:text-emerald-100 transition-colors duration-300 text-sm uppercase tracking-widest"
           >
             {isPlaying ? 'Stop Tone' : 'Play Tone'}
           </button>
           
           <button 
             onClick={onConfirm}
-            className="px-8 py-2 bg-emerald-900/20 border border-emerald-900/50 text-emerald-100 hover:bg-emerald-800/30 hover:border-emerald-500 transition-all duration-500 text-sm uppercase tracking-widest shadow-[0_0_20px_rgba(6,78,59,0.2)]"
+            disabled={!canConfirm}
+            className="px-8 py-2 disabled:opacity-30 disabled:pointer-events-none bg-emerald-900/20 border border-emerald-900/50 text-emerald-100 hover:bg-emerald-800/30 hover:border-emerald-500 transition-all duration-500 text-sm uppercase tracking-widest shadow-[0_0_20px_rgba(6,78,59,0.2)]"
+          >
+            Continue
+          </button>
+        </div>
+
+        {/* Optional octave verification */}
+        <div className="-mt-6">
+          <button
+            onClick={onCheckOctave}
+            disabled={!isAffected}
+            className="text-[10px] uppercase tracking-widest text-neutral-500 hover:text-emerald-300 transition-colors border-b border-transparent hover:border-emerald-900 pb-1 disabled:opacity-30 disabled:pointer-events-none"
           >
-            Enter Garden
+            Verify Octave (Optional)
           </button>
         </div>
       </div>
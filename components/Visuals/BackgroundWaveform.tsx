@@ -2,10 +2,12 @@ import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { AppMode } from '../../types';
+import { frequencyLevel } from '../../services/frequency';
+import { randomFor } from '../../services/random';
 
 const vertexShader = `
   uniform float uTime;
-  uniform float uFrequency;
+  uniform float uFrequencyLevel; // 1.0 at 8 kHz, see frequencyLevel()
   uniform float uTransition; // 0 (Chaos) -> 1 (Order)
   
   attribute float aAngle;
@@ -18,7 +20,7 @@ const vertexShader = `
     vec3 pos = position;
     
     // --- Structured Wave Logic (Order State) ---
-    float freqFactor = 1.0 + (uFrequency / 4000.0);
+    float freqFactor = 1.0 + (uFrequencyLevel * 2.0);
     float theta = aAngle * (6.0 + freqFactor) + uTime * 0.5;
     float phaseShift = aRingIndex * 4.0; 
     
@@ -27,7 +29,7 @@ const vertexShader = `
     float envelope = 1.0 - abs(aRingIndex); 
     envelope = smoothstep(0.0, 1.0, envelope); 
 
-    float amplitude = 2.5 + (uFrequency / 8000.0) * 1.5;
+    float amplitude = 2.5 + uFrequencyLevel * 1.5;
     
     // Apply Wave to Y
     pos.y += wave * amplitude * envelope;
@@ -85,18 +87,20 @@ interface BackgroundWaveformProps {
   frequency: number;
   position?: [number, number, number];
   mode?: AppMode; // Make optional to match usage, though we will pass it
+  seed: number;
 }
 
 export const BackgroundWaveform: React.FC<BackgroundWaveformProps> = ({ 
   frequency, 
   position = [0, 0, 0],
-  mode = AppMode.INTRO // Default
+  mode = AppMode.INTRO, // Default
+  seed
 }) => {
   const mesh = useRef<THREE.Points>(null);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uFrequency: { value: frequency },
+    uFrequencyLevel: { value: frequencyLevel(frequency) },
     uTransition: { value: 0 }
   }), []);
 
@@ -104,7 +108,7 @@ export const BackgroundWaveform: React.FC<BackgroundWaveformProps> = ({
     if (mesh.current) {
       const mat = mesh.current.material as THREE.ShaderMaterial;
       mat.uniforms.uTime.value = state.clock.getElapsedTime();
-      mat.uniforms.uFrequency.value = frequency;
+      mat.uniforms.uFrequencyLevel.value = frequencyLevel(frequency);
       
       // Rotate the entire cylinder
       mesh.current.rotation.y = state.clock.getElapsedTime() * 0.05;
@@ -121,6 +125,7 @@ export const BackgroundWaveform: React.FC<BackgroundWaveformProps> = ({
   });
 
   const particles = useMemo(() => {
+    const random = randomFor(seed, 'BackgroundWaveform');
     const positions: number[] = [];
     const angles: number[] = [];
     const ringIndices: number[] = [];
@@ -150,7 +155,7 @@ export const BackgroundWaveform: React.FC<BackgroundWaveformProps> = ({
         ringIndices.push(ringIndex);
         
         // Random values for chaos offset
-        randoms.push(Math.random(), Math.random(), Math.random());
+        randoms.push(random(), random(), random());
       }
     }
 
@@ -160,7 +165,7 @@ export const BackgroundWaveform: React.FC<BackgroundWaveformProps> = ({
       ringIndices: new Float32Array(ringIndices),
       randoms: new Float32Array(randoms)
     };
-  }, []);
+  }, [seed]);
 
   return (
     <points ref={mesh} position={position}>
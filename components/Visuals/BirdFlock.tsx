@@ -1,6 +1,7 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { randomFor } from '../../services/random';
 
 const vertexShader = `
   uniform float uTime;
@@ -92,9 +93,10 @@ const fragmentShader = `
 
 interface BirdFlockProps {
   count?: number; // Number of birds
+  seed: number;
 }
 
-export const BirdFlock: React.FC<BirdFlockProps> = ({ count = 25 }) => {
+export const BirdFlock: React.FC<BirdFlockProps> = ({ count = 25, seed }) => {
   const mesh = useRef<THREE.Points>(null);
 
   const uniforms = useMemo(() => ({
@@ -109,6 +111,7 @@ export const BirdFlock: React.FC<BirdFlockProps> = ({ count = 25 }) => {
   });
 
   const particles = useMemo(() => {
+    const random = randomFor(seed, 'BirdFlock');
     const pointsPerBird = 150; 
     const totalPoints = count * pointsPerBird;
     
@@ -122,27 +125,27 @@ export const BirdFlock: React.FC<BirdFlockProps> = ({ count = 25 }) => {
 
     for (let b = 0; b < count; b++) {
       // Each bird has a random "home" area in the sky
-      const cx = (Math.random() - 0.5) * 40;
-      const cy = 5 + Math.random() * 10; 
-      const cz = (Math.random() - 0.5) * 30;
+      const cx = (random() - 0.5) * 40;
+      const cy = 5 + random() * 10; 
+      const cz = (random() - 0.5) * 30;
       
-      const rSpeed = Math.random();
-      const rPhase = Math.random();
-      const rRadius = Math.random();
+      const rSpeed = random();
+      const rPhase = random();
+      const rRadius = random();
 
       for (let p = 0; p < pointsPerBird; p++) {
         const i = b * pointsPerBird + p;
         
-        const r = Math.random();
+        const r = random();
         
         let lx, ly, lz;
         let isWing = 0.0;
 
         if (r < 0.3) {
             // Body
-            const theta = Math.random() * Math.PI * 2;
-            const phi = Math.acos(2 * Math.random() - 1);
-            const br = 0.15 * Math.cbrt(Math.random()); 
+            const theta = random() * Math.PI * 2;
+            const phi = Math.acos(2 * random() - 1);
+            const br = 0.15 * Math.cbrt(random()); 
             
             lx = br * 0.6 * Math.sin(phi) * Math.cos(theta); 
             ly = br * 0.6 * Math.sin(phi) * Math.sin(theta); 
@@ -150,12 +153,12 @@ export const BirdFlock: React.FC<BirdFlockProps> = ({ count = 25 }) => {
         } else {
             // Wings
             isWing = 1.0;
-            const wingSide = Math.random() > 0.5 ? 1 : -1;
-            const span = Math.random(); 
+            const wingSide = random() > 0.5 ? 1 : -1;
+            const span = random(); 
             
             lx = (0.1 + span * 1.0) * wingSide;
             ly = Math.cos(span * Math.PI * 0.5) * 0.15 - 0.05;
-            lz = Math.abs(lx) * 0.4 - 0.1 + (Math.random() * 0.1); 
+            lz = Math.abs(lx) * 0.4 - 0.1 + (random() * 0.1); 
         }
 
         // Apply scale
@@ -181,7 +184,7 @@ export const BirdFlock: React.FC<BirdFlockProps> = ({ count = 25 }) => {
       randoms,
       wings
     };
-  }, [count]);
+  }, [count, seed]);
 
   return (
     <points ref={mesh}>
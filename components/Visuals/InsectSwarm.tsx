@@ -1,6 +1,7 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { randomFor } from '../../services/random';
 
 const vertexShader = `
   uniform float uTime;
@@ -61,9 +62,10 @@ const fragmentShader = `
 interface InsectSwarmProps {
   active: boolean;
   count?: number;
+  seed: number;
 }
 
-export const InsectSwarm: React.FC<InsectSwarmProps> = ({ active, count = 120 }) => {
+export const InsectSwarm: React.FC<InsectSwarmProps> = ({ active, count = 120, seed }) => {
   const mesh = useRef<THREE.Points>(null);
 
   const uniforms = useMemo(() => ({
@@ -86,6 +88,7 @@ export const InsectSwarm: React.FC<InsectSwarmProps> = ({ active, count = 120 })
   });
 
   const particles = useMemo(() => {
+    const random = randomFor(seed, 'InsectSwarm');
     const positions = new Float32Array(count * 3);
     const speeds = new Float32Array(count);
     const phases = new Float32Array(count);
@@ -97,29 +100,29 @@ export const InsectSwarm: React.FC<InsectSwarmProps> = ({ active, count = 120 })
 
     for (let i = 0; i < count; i++) {
       // Low altitude distribution: Strictly ground level (0 to 1.5)
-      const r = 4 + Math.random() * 20; // Spread out
-      const theta = Math.random() * Math.PI * 2;
+      const r = 4 + random() * 20; // Spread out
+      const theta = random() * Math.PI * 2;
       
       const x = Math.cos(theta) * r;
       const z = Math.sin(theta) * r;
-      const y = Math.random() * 1.5; // significantly lower than leaves
+      const y = random() * 1.5; // significantly lower than leaves
 
       positions[i * 3] = x;
       positions[i * 3 + 1] = y;
       positions[i * 3 + 2] = z;
       
-      speeds[i] = 0.5 + Math.random() * 1.5; 
-      phases[i] = Math.random() * Math.PI * 2;
+      speeds[i] = 0.5 + random() * 1.5; 
+      phases[i] = random() * Math.PI * 2;
 
       // 30% Red, 70% Yellow mix
-      const color = Math.random() > 0.7 ? cRed : cYellow;
+      const color = random() > 0.7 ? cRed : cYellow;
       colors[i * 3] = color.r;
       colors[i * 3 + 1] = color.g;
       colors[i * 3 + 2] = color.b;
     }
 
     return { positions, speeds, phases, colors };
-  }, [count]);
+  }, [count, seed]);
 
   return (
     <points ref={mesh}>
@@ -2,7 +2,8 @@ import React, { useRef, useState, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { AppMode, InteractionType } from '../../types';
+import { AppMode, LayerId } from '../../types';
+import { randomFor } from '../../services/random';
 
 // --- SHADERS FOR INTERACTIVE PARTICLES (BIRDS ONLY NOW) ---
 const vertexShader = `
@@ -55,13 +56,14 @@ const fragmentShader = `
 
 interface InteractiveObjectProps {
   position: [number, number, number];
-  type: InteractionType;
+  type: LayerId;
   isPlaying: boolean;
   onToggle: () => void;
   label: string;
   scale?: number;
   mode: AppMode;
   isUIHidden?: boolean; // New prop to hide overlays
+  seed: number;
 }
 
 export const InteractiveObject: React.FC<InteractiveObjectProps> = ({ 
@@ -72,7 +74,8 @@ export const InteractiveObject: React.FC<InteractiveObjectProps> = ({
   label,
   scale = 1.0,
   mode,
-  isUIHidden = false
+  isUIHidden = false,
+  seed
 }) => {
   const group = useRef<THREE.Group>(null);
   const pointsRef = useRef<THREE.Points>(null);
@@ -141,34 +144,35 @@ export const InteractiveObject: React.FC<InteractiveObjectProps> = ({
   // --- PARTICLE GENERATION ---
   const particleCount = type === 'BIRD' ? 400 : 0; 
   const particleData = useMemo(() => {
+    const random = randomFor(seed, `InteractiveObject:${type}`);
     if (!isLiving) return { positions: new Float32Array(0), randoms: new Float32Array(0) };
 
     const positions = new Float32Array(particleCount * 3);
     const randoms = new Float32Array(particleCount * 3);
 
     for(let i=0; i<particleCount; i++) {
-        const r = Math.random();
+        const r = random();
         let x, y, z;
 
         if (type === 'BIRD') {
             // Bird Shape
             if (r < 0.25) { // Body
-                const theta = Math.random() * Math.PI * 2;
-                const phi = Math.acos(2 * Math.random() - 1);
-                const br = 0.15 * Math.cbrt(Math.random()); 
+                const theta = random() * Math.PI * 2;
+                const phi = Math.acos(2 * random() - 1);
+                const br = 0.15 * Math.cbrt(random()); 
                 x = br * 0.6 * Math.sin(phi) * Math.cos(theta); 
                 y = br * 0.6 * Math.sin(phi) * Math.sin(theta); 
                 z = br * 2.5 * Math.cos(phi); 
             } else { // Wings
-                const wingSide = Math.random() > 0.5 ? 1 : -1;
-                const span = Math.random(); 
+                const wingSide = random() > 0.5 ? 1 : -1;
+                const span = random(); 
                 x = (0.1 + span * 1.2) * wingSide;
                 y = Math.cos(span * Math.PI * 0.5) * 0.2 - 0.1;
-                z = Math.abs(x) * 0.5 - 0.2 + (Math.random() * 0.1); 
+                z = Math.abs(x) * 0.5 - 0.2 + (random() * 0.1); 
                 const scatter = 0.05;
-                x += (Math.random() - 0.5) * scatter;
-                y += (Math.random() - 0.5) * scatter;
-                z += (Math.random() - 0.5) * scatter;
+                x += (random() - 0.5) * scatter;
+                y += (random() - 0.5) * scatter;
+                z += (random() - 0.5) * scatter;
             }
         } 
 
@@ -176,16 +180,16 @@ export const InteractiveObject: React.FC<InteractiveObjectProps> = ({
         positions[i*3+1] = y;
         positions[i*3+2] = z;
         
-        randoms[i*3] = (Math.random() - 0.5);
-        randoms[i*3+1] = (Math.random() - 0.5);
-        randoms[i*3+2] = (Math.random() - 0.5);
+        randoms[i*3] = (random() - 0.5);
+        randoms[i*3+1] = (random() - 0.5);
+        randoms[i*3+2] = (random() - 0.5);
     }
     return { positions, randoms };
-  }, [type, particleCount, isLiving]);
+  }, [type, particleCount, isLiving, seed]);
 
 
   const isGardenActive = mode === AppMode.GARDEN;
-  const showIcon = !isLiving; // WIND, LEAVES, WATER, RAIN, INSECT
+  const showIcon = !isLiving; // WIND, LEAVES, WATER, RAIN, INSECT and imported layers
 
   // Icon mapping
   const renderIcon = () => {
@@ -218,7 +222,12 @@ export const InteractiveObject: React.FC<InteractiveObjectProps> = ({
                 <path d="M18 16h2" /><path d="M4 16h2" />
             </svg>
         );
-        default: return null;
+        // Imported layers
+        default: return (
+             <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className={`transition-colors duration-300 ${isPlaying ? 'text-emerald-300' : 'text-neutral-400 group-hover:text-emerald-200'}`}>
+                <path d="M2 13v-2"/><path d="M6 17V7"/><path d="M10 21V3"/><path d="M14 16V8"/><path d="M18 19V5"/><path d="M22 13v-2"/>
+            </svg>
+        );
     }
   }
 
@@ -1,6 +1,7 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { randomFor } from '../../services/random';
 
 const vertexShader = `
   uniform float uTime;
@@ -71,9 +72,10 @@ const fragmentShader = `
 interface LeafParticlesProps {
   active: boolean;
   count?: number;
+  seed: number;
 }
 
-export const LeafParticles: React.FC<LeafParticlesProps> = ({ active, count = 1500 }) => {
+export const LeafParticles: React.FC<LeafParticlesProps> = ({ active, count = 1500, seed }) => {
   const mesh = useRef<THREE.Points>(null);
   
   const heightRange = 15.0; 
@@ -99,6 +101,7 @@ export const LeafParticles: React.FC<LeafParticlesProps> = ({ active, count = 15
   });
 
   const particles = useMemo(() => {
+    const random = randomFor(seed, 'LeafParticles');
     const positions = new Float32Array(count * 3);
     const speeds = new Float32Array(count);
     const offsets = new Float32Array(count);
@@ -114,29 +117,29 @@ export const LeafParticles: React.FC<LeafParticlesProps> = ({ active, count = 15
 
     for (let i = 0; i < count; i++) {
       // Spread wider than rain
-      const radius = 8 + Math.random() * 20;
-      const angle = Math.random() * Math.PI * 2;
+      const radius = 8 + random() * 20;
+      const angle = random() * Math.PI * 2;
       
       const x = Math.cos(angle) * radius;
       const z = Math.sin(angle) * radius;
-      const y = Math.random() * heightRange; 
+      const y = random() * heightRange; 
 
       positions[i * 3] = x;
       positions[i * 3 + 1] = y;
       positions[i * 3 + 2] = z;
       
-      speeds[i] = 1.0 + Math.random() * 2.0; 
-      offsets[i] = Math.random() * 10.0;
+      speeds[i] = 1.0 + random() * 2.0; 
+      offsets[i] = random() * 10.0;
 
       // Assign random color from palette
-      const color = palette[Math.floor(Math.random() * palette.length)];
+      const color = palette[Math.floor(random() * palette.length)];
       colors[i * 3] = color.r;
       colors[i * 3 + 1] = color.g;
       colors[i * 3 + 2] = color.b;
     }
 
     return { positions, speeds, offsets, colors };
-  }, [count, heightRange]);
+  }, [count, heightRange, seed]);
 
   return (
     <points ref={mesh}>
@@ -2,10 +2,12 @@ import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { AppMode } from '../../types';
+import { frequencyLevel } from '../../services/frequency';
+import { randomFor } from '../../services/random';
 
 const vertexShader = `
   uniform float uTime;
-  uniform float uFrequency;
+  uniform float uFrequencyLevel; // 1.0 at 8 kHz, see frequencyLevel()
   uniform float uTransition; // 0.0 (Chaos) -> 1.0 (Order)
   uniform vec3 uMouseDir; // Mouse Ray Direction
   
@@ -19,7 +21,7 @@ const vertexShader = `
     vec3 targetPos = position;
     
     // Architectural Rigidity vs Resonance
-    float jitterIntensity = (uFrequency / 8000.0) * 0.02;
+    float jitterIntensity = uFrequencyLevel * 0.02;
     float jitter = sin(uTime * 30.0 + targetPos.x * 10.0) * jitterIntensity;
     
     targetPos.x += jitter;
@@ -71,19 +73,21 @@ interface ParticleArchitectureProps {
   position?: [number, number, number];
   mode: AppMode;
   rayRef?: React.MutableRefObject<THREE.Vector3>;
+  seed: number;
 }
 
 export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({ 
   frequency, 
   position = [0, 0, -15],
   mode,
-  rayRef
+  rayRef,
+  seed
 }) => {
   const mesh = useRef<THREE.Points>(null);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uFrequency: { value: frequency },
+    uFrequencyLevel: { value: frequencyLevel(frequency) },
     uTransition: { value: 0 }, 
     uMouseDir: { value: new THREE.Vector3(0, 0, -1) }
   }), []);
@@ -92,7 +96,7 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
     if (mesh.current) {
       const mat = mesh.current.material as THREE.ShaderMaterial;
       mat.uniforms.uTime.value = state.clock.getElapsedTime();
-      mat.uniforms.uFrequency.value = frequency;
+      mat.uniforms.uFrequencyLevel.value = frequencyLevel(frequency);
       
       const target = mode === AppMode.GARDEN ? 1.0 : 0.0;
       mat.uniforms.uTransition.value = THREE.MathUtils.lerp(
@@ -108,6 +112,7 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
   });
 
   const particles = useMemo(() => {
+    const random = randomFor(seed, 'ParticleArchitecture');
     // Increased count to accommodate new vegetation
     const count = 32000; 
     const positions: number[] = [];
@@ -122,23 +127,23 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
     const cBushLight = new THREE.Color('#3d5c45'); // Lighter Foliage
     
     const addPoint = (x: number, y: number, z: number, color: THREE.Color) => {
-      positions.push(x + (Math.random()-0.5)*0.05, y + (Math.random()-0.5)*0.05, z + (Math.random()-0.5)*0.05);
+      positions.push(x + (random()-0.5)*0.05, y + (random()-0.5)*0.05, z + (random()-0.5)*0.05);
       
-      const variance = (Math.random() - 0.5) * 0.1;
+      const variance = (random() - 0.5) * 0.1;
       colors.push(color.r + variance, color.g + variance, color.b + variance);
       
       // Random direction for explosion
-      const rx = (Math.random() - 0.5);
-      const ry = (Math.random() - 0.5);
-      const rz = (Math.random() - 0.5);
+      const rx = (random() - 0.5);
+      const ry = (random() - 0.5);
+      const rz = (random() - 0.5);
       randomDirs.push(rx, ry, rz);
     };
 
     // --- PROCEDURAL GENERATION OF FACADE ---
     // 1. Main Wall Plane (Brick)
     for (let i = 0; i < 10000; i++) {
-        const x = (Math.random() - 0.5) * 14;
-        const y = Math.random() * 9; // Base height
+        const x = (random() - 0.5) * 14;
+        const y = random() * 9; // Base height
         const z = 0;
         
         const inDoor = Math.abs(x) < 2 && y < 3.5;
@@ -149,7 +154,7 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
         if (!inDoor && !inWindow && !inNicheL && !inNicheR) {
             addPoint(x, y, z, cBrickRed);
         } else {
-            if (Math.random() > 0.8) addPoint(x, y, z - 0.5, cDarkVoid);
+            if (random() > 0.8) addPoint(x, y, z - 0.5, cDarkVoid);
         }
     }
 
@@ -157,8 +162,8 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
     const colX = [-5.5, -2.5, 2.5, 5.5];
     colX.forEach(cx => {
         for (let i = 0; i < 1500; i++) {
-            const h = Math.random() * 8.5; // Column height
-            const angle = Math.random() * Math.PI; // Half cylinder facing forward
+            const h = random() * 8.5; // Column height
+            const angle = random() * Math.PI; // Half cylinder facing forward
             const r = 0.6;
             const x = cx + Math.cos(angle) * r;
             const z = Math.sin(angle) * r; // Protrude forward
@@ -166,8 +171,8 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
             addPoint(x, y, z, cStoneGrey);
         }
         for (let i = 0; i < 200; i++) {
-             const x = cx + (Math.random()-0.5) * 1.6;
-             const y = 8.5 + Math.random() * 0.5;
+             const x = cx + (random()-0.5) * 1.6;
+             const y = 8.5 + random() * 0.5;
              const z = 0.6;
              addPoint(x, y, z, cStoneGrey);
         }
@@ -175,11 +180,11 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
 
     // 3. Pediment (Triangle Roof) (Brick with Stone trim)
     for (let i = 0; i < 4000; i++) {
-        const x = (Math.random() - 0.5) * 15;
+        const x = (random() - 0.5) * 15;
         const yBase = 9.0;
         const yApex = 13.5;
         const maxY = -0.6 * Math.abs(x) + yApex;
-        const y = yBase + Math.random() * (maxY - yBase);
+        const y = yBase + random() * (maxY - yBase);
         
         if (y < maxY && y >= yBase) {
              const distToEdge = Math.min(Math.abs(y - yBase), Math.abs(y - maxY));
@@ -194,32 +199,32 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
     
     // 4. Horizontal Cornice/Entablature (Stone)
     for (let i = 0; i < 1500; i++) {
-        const x = (Math.random() - 0.5) * 15;
-        const y = 8.5 + Math.random() * 0.5;
+        const x = (random() - 0.5) * 15;
+        const y = 8.5 + random() * 0.5;
         const z = 0.7; // Sticks out most
         addPoint(x, y, z, cStoneGrey);
     }
     
     // 5. Stairs/Base
     for (let i = 0; i < 2000; i++) {
-        const x = (Math.random() - 0.5) * 16;
-        const y = -Math.random() * 1.5; // Downwards
-        const z = Math.random() * 3; // Steps forward
+        const x = (random() - 0.5) * 16;
+        const y = -random() * 1.5; // Downwards
+        const z = random() * 3; // Steps forward
         addPoint(x, y, z, cStoneGrey);
     }
     
     // 6. Side Vegetation
     for (let i = 0; i < 6000; i++) {
-        const isRight = Math.random() > 0.5;
+        const isRight = random() > 0.5;
         const xBase = isRight ? 9 : -9;
-        const x = xBase + (Math.random() - 0.5) * 6;
-        const z = (Math.random() - 0.5) * 5; 
+        const x = xBase + (random() - 0.5) * 6;
+        const z = (random() - 0.5) * 5; 
         const distFromCenter = Math.sqrt(Math.pow(x - xBase, 2) + Math.pow(z, 2));
         const maxHeight = Math.max(0, 3.5 - distFromCenter * 0.8);
-        const y = Math.random() * maxHeight;
+        const y = random() * maxHeight;
         
         if (y > 0.1) {
-            const col = Math.random() > 0.6 ? cBushLight : cBushDark;
+            const col = random() > 0.6 ? cBushLight : cBushDark;
             addPoint(x, y, z + 1.0, col);
         }
     }
@@ -229,7 +234,7 @@ export const ParticleArchitecture: React.FC<ParticleArchitectureProps> = ({
       colors: new Float32Array(colors),
       randomDirs: new Float32Array(randomDirs)
     };
-  }, []);
+  }, [seed]);
 
   return (
     <points ref={mesh} position={position}>
@@ -2,11 +2,13 @@ import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { AppMode } from '../../types';
+import { frequencyLevel } from '../../services/frequency';
+import { randomFor } from '../../services/random';
 
 // Custom shader for the organic, breathing particle effect
 const vertexShader = `
   uniform float uTime;
-  uniform float uFrequency; 
+  uniform float uFrequencyLevel; // 1.0 at 8 kHz, see frequencyLevel()
   uniform float uTransition; // 0 (chaos) -> 1 (order)
   uniform vec3 uMouseDir; // Mouse Ray Direction
   
@@ -22,7 +24,7 @@ const vertexShader = `
     
     // Organic wave movement (Order) - SLOWED DOWN for dreaminess (0.5 -> 0.3)
     float wave = sin(pos.x * 0.3 + uTime * 0.3) * cos(pos.z * 0.3 + uTime * 0.2) * 0.5;
-    float jitter = sin(uTime * 10.0 + pos.y) * (uFrequency / 10000.0) * 0.05;
+    float jitter = sin(uTime * 10.0 + pos.y) * (uFrequencyLevel * 0.8) * 0.05;
     pos.y += wave + jitter;
     
     // --- TRANSITION LOGIC ---
@@ -102,14 +104,15 @@ interface ParticleFieldProps {
   frequency: number; 
   mode: AppMode;
   rayRef?: React.MutableRefObject<THREE.Vector3>;
+  seed: number;
 }
 
-export const ParticleField: React.FC<ParticleFieldProps> = ({ count = 6000, frequency, mode, rayRef }) => {
+export const ParticleField: React.FC<ParticleFieldProps> = ({ count = 6000, frequency, mode, rayRef, seed }) => {
   const mesh = useRef<THREE.Points>(null);
   
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uFrequency: { value: frequency },
+    uFrequencyLevel: { value: frequencyLevel(frequency) },
     uTransition: { value: 0 },
     uMouseDir: { value: new THREE.Vector3(0, 0, -1) }
   }), []);
@@ -119,9 +122,9 @@ export const ParticleField: React.FC<ParticleFieldProps> = ({ count = 6000, freq
     if (mesh.current && mesh.current.material instanceof THREE.ShaderMaterial) {
       const mat = mesh.current.material;
       mat.uniforms.uTime.value = state.clock.getElapsedTime();
-      mat.uniforms.uFrequency.value = THREE.MathUtils.lerp(
-        mat.uniforms.uFrequency.value,
-        frequency,
+      mat.uniforms.uFrequencyLevel.value = THREE.MathUtils.lerp(
+        mat.uniforms.uFrequencyLevel.value,
+        frequencyLevel(frequency),
         0.1
       );
       
@@ -139,27 +142,28 @@ export const ParticleField: React.FC<ParticleFieldProps> = ({ count = 6000, freq
   });
 
   const particles = useMemo(() => {
+    const random = randomFor(seed, 'ParticleField');
     const tempPositions = new Float32Array(count * 3);
     const tempScales = new Float32Array(count);
     const tempRandoms = new Float32Array(count * 3);
     const tempTypes = new Float32Array(count); 
 
     for (let i = 0; i < count; i++) {
-      const x = (Math.random() - 0.5) * 50;
-      const z = (Math.random() - 0.5) * 50;
+      const x = (random() - 0.5) * 50;
+      const z = (random() - 0.5) * 50;
       const y = Math.sin(x * 0.2) * Math.cos(z * 0.2) * 2 - 2;
 
       tempPositions[i * 3] = x;
       tempPositions[i * 3 + 1] = y;
       tempPositions[i * 3 + 2] = z;
 
-      tempScales[i] = Math.random() * 2.0 + 0.5;
+      tempScales[i] = random() * 2.0 + 0.5;
       
-      tempRandoms[i * 3] = Math.random();
-      tempRandoms[i * 3 + 1] = Math.random();
-      tempRandoms[i * 3 + 2] = Math.random();
+      tempRandoms[i * 3] = random();
+      tempRandoms[i * 3 + 1] = random();
+      tempRandoms[i * 3 + 2] = random();
 
-      const isFlower = Math.random() > 0.96 && y > -2.5;
+      const isFlower = random() > 0.96 && y > -2.5;
       tempTypes[i] = isFlower ? 1.0 : 0.0;
     }
 
@@ -169,7 +173,7 @@ export const ParticleField: React.FC<ParticleFieldProps> = ({ count = 6000, freq
       randoms: tempRandoms, 
       types: tempTypes 
     };
-  }, [count]);
+  }, [count, seed]);
 
   return (
     <points ref={mesh}>
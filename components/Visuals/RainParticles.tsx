@@ -1,6 +1,7 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { randomFor } from '../../services/random';
 
 const vertexShader = `
   uniform float uTime;
@@ -63,9 +64,10 @@ const fragmentShader = `
 interface RainParticlesProps {
   active: boolean;
   count?: number;
+  seed: number;
 }
 
-export const RainParticles: React.FC<RainParticlesProps> = ({ active, count = 3000 }) => {
+export const RainParticles: React.FC<RainParticlesProps> = ({ active, count = 3000, seed }) => {
   const mesh = useRef<THREE.Points>(null);
   
   const heightRange = 25.0; // How high the rain volume is
@@ -92,28 +94,29 @@ export const RainParticles: React.FC<RainParticlesProps> = ({ active, count = 30
   });
 
   const particles = useMemo(() => {
+    const random = randomFor(seed, 'RainParticles');
     const positions = new Float32Array(count * 3);
     const speeds = new Float32Array(count);
     const randoms = new Float32Array(count);
 
     for (let i = 0; i < count; i++) {
       // Spread evenly in X/Z, but random Y
-      const x = (Math.random() - 0.5) * 40;
-      const z = (Math.random() - 0.5) * 40;
-      const y = Math.random() * heightRange - 5.0; 
+      const x = (random() - 0.5) * 40;
+      const z = (random() - 0.5) * 40;
+      const y = random() * heightRange - 5.0; 
 
       positions[i * 3] = x;
       positions[i * 3 + 1] = y;
       positions[i * 3 + 2] = z;
       
       // Fall speed: some drops faster than others
-      speeds[i] = 5.0 + Math.random() * 8.0; 
+      speeds[i] = 5.0 + random() * 8.0; 
       
-      randoms[i] = Math.random();
+      randoms[i] = random();
     }
 
     return { positions, speeds, randoms };
-  }, [count, heightRange]);
+  }, [count, heightRange, seed]);
 
   return (
     <points ref={mesh}>
@@ -2,11 +2,13 @@ import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { AppMode } from '../../types';
+import { frequencyLevel } from '../../services/frequency';
+import { randomFor } from '../../services/random';
 
 // Shader for the trees (static glow + subtle wind sway)
 const vertexShader = `
   uniform float uTime;
-  uniform float uFrequency;
+  uniform float uFrequencyLevel; // 1.0 at 8 kHz, see frequencyLevel()
   uniform float uTransition; // 0 (chaos) -> 1 (order)
   uniform float uWindIntensity; // 0.0 -> 1.0 (Active Wind)
   uniform vec3 uMouseDir;
@@ -26,7 +28,7 @@ const vertexShader = `
     
     // --- WIND PHYSICS ---
     // 1. Base Ambient Sway (Always present)
-    float baseStrength = 0.1 + (uFrequency / 10000.0) * 0.05;
+    float baseStrength = 0.1 + (uFrequencyLevel * 0.8) * 0.05;
     float ambientX = sin(uTime * 0.8 + pos.y * 0.5);
     float ambientZ = cos(uTime * 0.6 + pos.x * 0.5);
     
@@ -94,14 +96,15 @@ interface TreeGroveProps {
   mode: AppMode;
   rayRef?: React.MutableRefObject<THREE.Vector3>;
   isWindActive?: boolean;
+  seed: number;
 }
 
-export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mode, rayRef, isWindActive = false }) => {
+export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mode, rayRef, isWindActive = false, seed }) => {
   const pointsRef = useRef<THREE.Points>(null);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uFrequency: { value: frequency },
+    uFrequencyLevel: { value: frequencyLevel(frequency) },
     uTransition: { value: 0 },
     uWindIntensity: { value: 0 },
     uMouseDir: { value: new THREE.Vector3(0, 0, -1) }
@@ -111,7 +114,7 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
     if (pointsRef.current) {
       const mat = pointsRef.current.material as THREE.ShaderMaterial;
       mat.uniforms.uTime.value = state.clock.getElapsedTime();
-      mat.uniforms.uFrequency.value = frequency;
+      mat.uniforms.uFrequencyLevel.value = frequencyLevel(frequency);
 
       // 1. Mode Transition (Intro -> Garden)
       const targetTransition = mode === AppMode.GARDEN ? 1.0 : 0.0;
@@ -137,6 +140,7 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
 
   // Generate the forest geometry
   const { positions, sizes, sway, colors, randomDirs } = useMemo(() => {
+    const random = randomFor(seed, 'TreeGrove');
     const allPositions: number[] = [];
     const allSizes: number[] = [];
     const allSway: number[] = [];
@@ -150,7 +154,7 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
       allColors.push(...color);
       
       // Random direction outward
-      allRandomDirs.push((Math.random()-0.5), (Math.random()-0.5), (Math.random()-0.5));
+      allRandomDirs.push((random()-0.5), (random()-0.5), (random()-0.5));
     };
 
     for (let i = 0; i < count; i++) {
@@ -162,8 +166,8 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
       while (!validPosition && attempts < 200) {
           // New Placement Logic: Cartesian Scatter
           // Spread widely in X (-45 to 45) and Z (-45 to 25)
-          rootX = (Math.random() - 0.5) * 90;
-          rootZ = (Math.random() - 0.5) * 70 - 10; 
+          rootX = (random() - 0.5) * 90;
+          rootZ = (random() - 0.5) * 70 - 10; 
 
           // Logic to define the "Road" and "Clearing"
           
@@ -187,17 +191,17 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
       if (!validPosition) continue;
 
       const rootY = -2; 
-      const treeHeight = 5 + Math.random() * 6;
+      const treeHeight = 5 + random() * 6;
       
       // 1. Trunk
       const trunkPoints = 60; 
       for (let j = 0; j < trunkPoints; j++) {
         const t = j / trunkPoints; 
         const y = rootY + t * treeHeight;
-        const x = rootX + (Math.sin(y * 2.0) * 0.2) + (Math.random() - 0.5) * 0.15;
-        const z = rootZ + (Math.cos(y * 2.0) * 0.2) + (Math.random() - 0.5) * 0.15;
+        const x = rootX + (Math.sin(y * 2.0) * 0.2) + (random() - 0.5) * 0.15;
+        const z = rootZ + (Math.cos(y * 2.0) * 0.2) + (random() - 0.5) * 0.15;
         
-        const lightness = 0.2 + Math.random() * 0.2; 
+        const lightness = 0.2 + random() * 0.2; 
         const trunkColor: [number, number, number] = [
             0.25 * lightness + 0.1,
             0.20 * lightness + 0.1,
@@ -211,22 +215,22 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
       // 2. Canopy
       const leafPoints = 600; 
       const canopyCenterY = rootY + treeHeight * 0.75;
-      const canopyRadius = 1.8 + Math.random() * 2.5;
+      const canopyRadius = 1.8 + random() * 2.5;
 
       for (let k = 0; k < leafPoints; k++) {
-        const u = Math.random();
-        const v = Math.random();
+        const u = random();
+        const v = random();
         const theta = 2 * Math.PI * u;
         const phi = Math.acos(2 * v - 1);
-        const r = Math.pow(Math.random(), 0.5) * canopyRadius; 
+        const r = Math.pow(random(), 0.5) * canopyRadius; 
 
         const lx = rootX + r * Math.sin(phi) * Math.cos(theta);
         const ly = canopyCenterY + r * Math.sin(phi) * Math.sin(theta) * 0.8; 
         const lz = rootZ + r * Math.cos(phi);
 
-        const size = 0.4 + Math.random() * 0.35;
+        const size = 0.4 + random() * 0.35;
 
-        const colorRand = Math.random();
+        const colorRand = random();
         let c: [number, number, number];
         if (colorRand > 0.92) c = [0.8, 0.7, 0.3]; 
         else if (colorRand > 0.7) c = [0.45, 0.55, 0.25];
@@ -235,7 +239,7 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
         else c = [0.02, 0.05, 0.1];
 
         // Leaves sway more (1.0 scale)
-        addPoint(lx, ly, lz, size, 0.8 + Math.random() * 0.4, c);
+        addPoint(lx, ly, lz, size, 0.8 + random() * 0.4, c);
       }
     }
 
@@ -246,7 +250,7 @@ export const TreeGrove: React.FC<TreeGroveProps> = ({ frequency, count = 25, mod
       colors: new Float32Array(allColors),
       randomDirs: new Float32Array(allRandomDirs)
     };
-  }, [count]);
+  }, [count, seed]);
 
   return (
     <points ref={pointsRef}>
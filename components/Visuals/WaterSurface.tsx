@@ -2,10 +2,12 @@ import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { AppMode } from '../../types';
+import { frequencyLevel } from '../../services/frequency';
+import { randomFor } from '../../services/random';
 
 const vertexShader = `
   uniform float uTime;
-  uniform float uFrequency;
+  uniform float uFrequencyLevel; // 1.0 at 8 kHz, see frequencyLevel()
   uniform float uTransition; // 0 -> 1
   uniform float uActive;     // 0 -> 1 (Interaction intensity)
   
@@ -18,7 +20,7 @@ const vertexShader = `
     // 1. Base Gentle rolling waves
     float wave1 = sin(pos.x * 0.2 + uTime * 0.5);
     float wave2 = cos(pos.z * 0.15 + uTime * 0.3);
-    float freqIntensity = uFrequency / 8000.0; 
+    float freqIntensity = uFrequencyLevel; 
     float ripple = sin(pos.x * 1.5 + uTime * 2.0) * cos(pos.z * 1.5 + uTime) * (0.1 + 0.1 * freqIntensity);
 
     // 2. Active Surge Layer (Triggered by interaction)
@@ -78,14 +80,15 @@ interface WaterSurfaceProps {
   frequency: number;
   mode: AppMode;
   isActive: boolean;
+  seed: number;
 }
 
-export const WaterSurface: React.FC<WaterSurfaceProps> = ({ frequency, mode, isActive }) => {
+export const WaterSurface: React.FC<WaterSurfaceProps> = ({ frequency, mode, isActive, seed }) => {
   const points = useRef<THREE.Points>(null);
   
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uFrequency: { value: frequency },
+    uFrequencyLevel: { value: frequencyLevel(frequency) },
     uTransition: { value: 0 },
     uActive: { value: 0 }
   }), []);
@@ -94,9 +97,9 @@ export const WaterSurface: React.FC<WaterSurfaceProps> = ({ frequency, mode, isA
     if (points.current) {
       const material = points.current.material as THREE.ShaderMaterial;
       material.uniforms.uTime.value = state.clock.getElapsedTime();
-      material.uniforms.uFrequency.value = THREE.MathUtils.lerp(
-        material.uniforms.uFrequency.value,
-        frequency,
+      material.uniforms.uFrequencyLevel.value = THREE.MathUtils.lerp(
+        material.uniforms.uFrequencyLevel.value,
+        frequencyLevel(frequency),
         0.05
       );
       
@@ -118,13 +121,14 @@ export const WaterSurface: React.FC<WaterSurfaceProps> = ({ frequency, mode, isA
   });
 
   const particleData = useMemo(() => {
+    const random = randomFor(seed, 'WaterSurface');
     const count = 5000;
     const positions = new Float32Array(count * 3);
     const size = 60; 
     
     for (let i = 0; i < count; i++) {
-      const x = (Math.random() - 0.5) * size;
-      const z = (Math.random() - 0.5) * size;
+      const x = (random() - 0.5) * size;
+      const z = (random() - 0.5) * size;
       const y = 0; 
 
       positions[i * 3] = x;
@@ -133,7 +137,7 @@ export const WaterSurface: React.FC<WaterSurfaceProps> = ({ frequency, mode, isA
     }
     
     return positions;
-  }, []);
+  }, [seed]);
 
   return (
     <points ref={points} position={[0, -2.5, 0]}>
@@ -1,30 +1,95 @@
+import { DuckingRule, Ear, EarMatches, GardenSpace, InteractionType, LayerId, MixerChannelId, MixerSettings, DroneSettings, NotchWidth, PianoSettings, PitchPolicies, StoredUserLayer, ToneCharacter, UserLayerId, Vec3 } from '../types';
+import { EarStage, combineEarFrequencies, createDefaultEarMatches } from './EarStage';
+import { MIXER_CHANNELS, Mixer, createDefaultMixerSettings } from './Mixer';
+import { DEFAULT_DUCKING_RULES } from './Ducking';
+import { dbToGain } from './levels';
+import { DEFAULT_TONE_CHARACTER, MatchingSource, createMatchingSource, matchedBandwidth } from './MatchingTone';
+import { createPinkNoiseBuffer } from './noise';
+import { LayerOptions, startLayerSound } from './Layers';
+import { SoundEntry, SoundReport, loadSoundLibrary, soundEntry } from './SoundLibrary';
+import { isUserLayerId, userLayerBuffer, userSoundEntry } from './UserLayers';
+import { PitchFollow, measureCentroid, policyFor } from './PitchPolicy';
+import { DEFAULT_DRONE_SETTINGS, DroneVoice, startDrone } from './Drone';
+import { DEFAULT_PIANO_SETTINGS, PianoVoice, startPiano } from './Piano';
+import { DEFAULT_SPACE, SendReverb } from './Reverb';
+import { DEFAULT_OUTPUT_CEILING_DB, Limiter, LoudnessNormaliser, SafetyStatus } from './Safety';
+import { Random, randomFor } from './random';
+import { EXPORT_SAMPLE_RATE, TrackRenderOptions, extractLoop, renderLength } from './TrackExport';
+
 // Singleton Audio Engine
 class AudioEngine {
   private ctx: AudioContext | null = null;
-  private tinnitusOsc: OscillatorNode | null = null;
+  private tinnitusSource: MatchingSource | null = null;
+  private tinnitusFrequency = 4500;
+  private tinnitusVolume = 0;
+  private tinnitusEar: Ear = 'left';
+  private toneCharacter: ToneCharacter = DEFAULT_TONE_CHARACTER;
   private tinnitusGain: GainNode | null = null;
+  private tinnitusPan: StereoPannerNode | null = null;
   private masterGain: GainNode | null = null;
+  private masterLevelDb = -6;
+
+  // Final output. The garden (via masterGain) and the calibration signals
+  // (matching tone, masking noise) meet here, so calibration levels are
+  // absolute dBFS and don't move with the master level.
+  private outputGain: GainNode | null = null;
+  private sessionGain: GainNode | null = null; // Session timer fade, after the master
+  // Master safety chain: calibration signals join after the limiter, so
+  // their carefully set levels are never touched by it
+  private normaliser: LoudnessNormaliser | null = null;
+  private normaliseLoudness = true;
+  private limiter: Limiter | null = null;
+  private outputCeilingDb = DEFAULT_OUTPUT_CEILING_DB;
+  private maskingNoise: AudioBufferSourceNode | null = null;
+  private maskingGain: GainNode | null = null;
+
+  // All garden layers (samples, fallbacks, drone, piano) feed their own
+  // mixer strip. The mixer bus runs through the per-ear stage (one notch per
+  // ear) before reaching masterGain. The matching tone bypasses it and goes
+  // straight to masterGain.
+  private mixer: Mixer | null = null;
+  private mixerSettings: MixerSettings = createDefaultMixerSettings();
+  private duckingRules: DuckingRule[] = DEFAULT_DUCKING_RULES;
+
+  // Spatial audio: layer positions in garden world space, heard from the camera
+  private spatialEnabled = true;
+  private layerPositions: Map<MixerChannelId, Vec3> = new Map();
+  private earStage: EarStage | null = null;
+  // Shared reverb fed by every strip's send
+  private reverb: SendReverb | null = null;
+  private space: GardenSpace = DEFAULT_SPACE;
+  private notchEnabled = false;
+  private notchWidth: NotchWidth = 1;
+  private ears: EarMatches = createDefaultEarMatches();
+  private pitchPolicies: PitchPolicies = {};
+
+  // Seeded streams for the layers' playback variation and the piano
+  private layerRandom: Random = Math.random;
+  private pianoRandom: Random = Math.random;
   
-  // Buffers
-  private birdBuffer: AudioBuffer | null = null;
-  private windBuffer: AudioBuffer | null = null;
-  private leavesBuffer: AudioBuffer | null = null;
-  private waterBuffer: AudioBuffer | null = null;
-  private rainBuffer: AudioBuffer | null = null;
-  private insectBuffer: AudioBuffer | null = null;
+  // Decoded samples; layers without one use their synth fallback
+  private buffers: Partial<Record<InteractionType, AudioBuffer>> = {};
+  private soundReport: SoundReport[] = [];
+
+  // Imported layers, each with its own mixer strip
+  private userLayers = new Map<UserLayerId, { entry: SoundEntry; buffer: AudioBuffer }>();
+
+  // Spectral centroids measured from the loaded audio; entries without one
+  // keep the centroid declared in the library
+  private centroids = new Map<LayerId, number>();
   
   // Background Ambient State
   private ambientSource: AudioBufferSourceNode | null = null;
   private ambientGain: GainNode | null = null;
-  private droneNodes: AudioNode[] = []; // Track synth nodes
+  private drone: DroneVoice | null = null;
+  private droneSettings: DroneSettings = DEFAULT_DRONE_SETTINGS;
 
   // Piano State
-  private pianoTimeout: number | null = null;
-  private pianoNodes: Set<AudioNode> = new Set();
+  private piano: PianoVoice | null = null;
+  private pianoSettings: PianoSettings = DEFAULT_PIANO_SETTINGS;
 
-  // Dynamic Mixing State
-  private activeSounds: Set<string> = new Set();
-  private rainGainNode: GainNode | null = null;
+  // Dynamic Mixing State (feeds the ducking matrix)
+  private activeSounds: Set<MixerChannelId> = new Set();
 
   constructor() {
     // Lazy init
@@ -33,81 +98,380 @@ class AudioEngine {
   public init() {
     if (!this.ctx) {
       this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.outputGain = this.ctx.createGain();
+      this.outputGain.connect(this.ctx.destination);
+
+      this.limiter = new Limiter(this.ctx, this.outputCeilingDb);
+      this.limiter.output.connect(this.outputGain);
+
+      this.sessionGain = this.ctx.createGain();
+      this.sessionGain.connect(this.limiter.input);
+
       this.masterGain = this.ctx.createGain();
-      this.masterGain.connect(this.ctx.destination);
-      this.masterGain.gain.value = 0.5;
+      this.masterGain.connect(this.sessionGain);
+      this.masterGain.gain.value = dbToGain(this.masterLevelDb);
+
+      this.normaliser = new LoudnessNormaliser(this.ctx, this.normaliseLoudness);
+      this.normaliser.output.connect(this.masterGain);
+
+      this.earStage = new EarStage(this.ctx, this.ears, this.effectiveNotchWidth());
+      this.earStage.setNotchEnabled(this.notchEnabled);
+      this.earStage.output.connect(this.normaliser.input);
+
+      this.mixer = new Mixer(this.ctx, this.mixerSettings, this.duckingRules, this.channels());
+      this.mixer.output.connect(this.earStage.input);
+      this.reverb = new SendReverb(this.ctx, this.space);
+      this.mixer.send.connect(this.reverb.input);
+      this.reverb.output.connect(this.earStage.input);
+      this.layerPositions.forEach((pos, id) => this.mixer!.setChannelPosition(id, pos));
+      this.mixer.setSpatialEnabled(this.spatialEnabled);
     }
     if (this.ctx.state === 'suspended') {
       this.ctx.resume();
     }
   }
 
-  // Load the asset files
-  public async loadAmbientTrack(): Promise<void> {
-    this.init();
+  // Releases the live graph: harmony and calibration signals stop, the
+  // safety chain's meters stop and the context closes. The next init()
+  // builds everything afresh.
+  public close() {
     if (!this.ctx) return;
+    this.stopDrone();
+    this.stopPiano();
+    this.stopTinnitusTone();
+    this.stopMaskingNoise();
+    if (this.ambientSource) {
+      try { this.ambientSource.stop(); } catch(e){}
+    }
+    this.normaliser?.dispose();
+    this.limiter?.dispose();
+    this.ctx.close();
+
+    this.ctx = null;
+    this.tinnitusSource = null;
+    this.tinnitusGain = null;
+    this.tinnitusPan = null;
+    this.maskingNoise = null;
+    this.maskingGain = null;
+    this.ambientSource = null;
+    this.ambientGain = null;
+    this.drone = null;
+    this.piano = null;
+    this.outputGain = null;
+    this.sessionGain = null;
+    this.masterGain = null;
+    this.normaliser = null;
+    this.limiter = null;
+    this.earStage = null;
+    this.mixer = null;
+    this.reverb = null;
+    this.activeSounds.clear();
+  }
 
-    // Enhanced loader with logging
-    const loadBuffer = async (filename: string): Promise<AudioBuffer | null> => {
-        const pathsToTry = [`./${filename}`, `/${filename}`, filename];
-        
-        for (const path of pathsToTry) {
-            try {
-                const res = await fetch(path);
-                if (res.ok) {
-                    const arr = await res.arrayBuffer();
-                    const decoded = await this.ctx!.decodeAudioData(arr);
-                    console.log(`[AudioEngine] Loaded ${filename} successfully.`);
-                    return decoded;
-                }
-            } catch (e) {
-                // Ignore and try next path
-            }
-        }
-        console.warn(`[AudioEngine] Failed to load ${filename}. Will use synth fallback.`);
-        return null;
+  // Loads every sound in the library. Missing ones keep their fallback synth.
+  // A load whose context was closed meanwhile is dropped, so it can't
+  // overwrite the result of the load that replaced it.
+  public async loadSounds(): Promise<SoundReport[]> {
+    this.init();
+    const ctx = this.ctx;
+    if (!ctx) return [];
+    const { buffers, report } = await loadSoundLibrary(ctx);
+    if (this.ctx !== ctx) return this.soundReport;
+    this.buffers = buffers;
+    (Object.keys(buffers) as InteractionType[]).forEach(id => this.measureLayer(id, buffers[id]!));
+    this.soundReport = report;
+    return report;
+  }
+
+  public getSoundReport(): SoundReport[] {
+    return this.soundReport;
+  }
+
+  // Decodes an imported file on the engine's context
+  public async decodeAudio(data: ArrayBuffer): Promise<AudioBuffer> {
+    this.init();
+    if (!this.ctx) throw new Error('Audio is not available');
+    return this.ctx.decodeAudioData(data);
+  }
+
+  // --- IMPORTED LAYERS ---
+  // Can be added before init; their strips are created with the mixer.
+  public addUserLayer(layer: StoredUserLayer) {
+    const buffer = userLayerBuffer(layer);
+    this.userLayers.set(layer.id, { entry: userSoundEntry(layer), buffer });
+    this.measureLayer(layer.id, buffer);
+    this.mixer?.addChannel(layer.id);
+    const position = this.layerPositions.get(layer.id);
+    if (position) this.mixer?.setChannelPosition(layer.id, position);
+  }
+
+  // The layer should be stopped first
+  public removeUserLayer(id: UserLayerId) {
+    this.userLayers.delete(id);
+    this.centroids.delete(id);
+    this.layerPositions.delete(id);
+    this.setLayerActive(id, false);
+    this.mixer?.removeChannel(id);
+  }
+
+  private channels(): MixerChannelId[] {
+    return [...MIXER_CHANNELS, ...this.userLayers.keys()];
+  }
+
+  private measureLayer(id: LayerId, buffer: AudioBuffer) {
+    const centroid = measureCentroid(buffer);
+    if (centroid !== null) this.centroids.set(id, centroid);
+  }
+
+  private entryFor(id: LayerId): SoundEntry | undefined {
+    const entry = isUserLayerId(id) ? this.userLayers.get(id)?.entry : soundEntry(id);
+    return entry && { ...entry, centroid: this.centroids.get(id) ?? entry.centroid };
+  }
+
+  // What the pitch policy preview needs to place a layer
+  public getPitchProfile(id: LayerId): { centroid: number; pitchFollow: PitchFollow } | null {
+    const entry = this.entryFor(id);
+    return entry ? { centroid: entry.centroid, pitchFollow: entry.pitchFollow } : null;
+  }
+
+  private bufferFor(id: LayerId): AudioBuffer | null {
+    return (isUserLayerId(id) ? this.userLayers.get(id)?.buffer : this.buffers[id]) ?? null;
+  }
+
+  // --- MASTER ---
+  public setMasterLevel(db: number) {
+      this.masterLevelDb = db;
+      if (this.masterGain && this.ctx) {
+          this.masterGain.gain.setTargetAtTime(dbToGain(db), this.ctx.currentTime, 0.1);
+      }
+  }
+
+  // Highest level the garden can ever reach at the output, in dBFS
+  public setOutputCeiling(db: number) {
+    this.outputCeilingDb = db;
+    this.limiter?.setCeiling(db);
+  }
+
+  public setLoudnessNormalise(enabled: boolean) {
+    this.normaliseLoudness = enabled;
+    this.normaliser?.setEnabled(enabled);
+  }
+
+  public getSafetyStatus(): SafetyStatus {
+    return {
+      ceilingHitSeconds: this.limiter?.ceilingHitSeconds() ?? 0,
+      normaliserDb: this.normaliser?.gainDb ?? 0,
     };
+  }
 
-    console.log("[AudioEngine] Starting asset loading...");
+  // --- MIXER ---
+  // Session timer: fades every garden layer out together. Calibration
+  // tones bypass this stage, so they are never affected.
+  public fadeOutSession(seconds: number) {
+    if (!this.ctx || !this.sessionGain) return;
+    const now = this.ctx.currentTime;
+    const gain = this.sessionGain.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(0, now + Math.max(0.1, seconds));
+  }
 
-    // Corrected Mapping: specific files for specific buffers
-    // Please ensure these files exist in your public folder
-    this.birdBuffer = await loadBuffer('bird.mp3'); 
-    this.windBuffer = await loadBuffer('wind.mp3');
-    this.leavesBuffer = await loadBuffer('leaves.mp3'); 
-    this.waterBuffer = await loadBuffer('water.mp3');
-    this.rainBuffer = await loadBuffer('rain.mp3');
-    this.insectBuffer = await loadBuffer('insect.mp3');
-    
-    console.log("[AudioEngine] Asset loading routine complete.");
+  // Back to full level, after the session's layers have been stopped or
+  // when the timer is cancelled mid-fade
+  public resetSessionFade() {
+    if (!this.ctx || !this.sessionGain) return;
+    const now = this.ctx.currentTime;
+    this.sessionGain.gain.cancelScheduledValues(now);
+    this.sessionGain.gain.setTargetAtTime(1, now, 0.2);
+  }
+
+  public setMixerSettings(settings: MixerSettings) {
+      this.mixerSettings = settings;
+      this.mixer?.setSettings(settings);
+  }
+
+  public setDuckingRules(rules: DuckingRule[]) {
+      this.duckingRules = rules;
+      this.mixer?.setDuckingRules(rules);
+  }
+
+  public getChannelLevel(id: MixerChannelId): number {
+      return this.mixer?.getLevel(id) ?? 0;
+  }
+
+  // --- SPATIAL AUDIO ---
+  public setSpatialEnabled(enabled: boolean) {
+      this.spatialEnabled = enabled;
+      this.mixer?.setSpatialEnabled(enabled);
+  }
+
+  public setLayerPosition(id: MixerChannelId, position: Vec3) {
+      this.layerPositions.set(id, position);
+      this.mixer?.setChannelPosition(id, position);
+  }
+
+  // Called every frame with the camera pose
+  public setListenerPose(position: Vec3, forward: Vec3, up: Vec3) {
+      if (!this.ctx) return;
+      const listener = this.ctx.listener;
+      if (listener.positionX) {
+          listener.positionX.value = position[0];
+          listener.positionY.value = position[1];
+          listener.positionZ.value = position[2];
+          listener.forwardX.value = forward[0];
+          listener.forwardY.value = forward[1];
+          listener.forwardZ.value = forward[2];
+          listener.upX.value = up[0];
+          listener.upY.value = up[1];
+          listener.upZ.value = up[2];
+      } else {
+          // Older implementations (Firefox) only have the setter methods
+          listener.setPosition(...position);
+          listener.setOrientation(...forward, ...up);
+      }
+  }
+
+  // --- NOTCHED SOUND THERAPY (per ear) ---
+  // Settings are remembered before init so the stage starts in the right state.
+  public setNotchEnabled(enabled: boolean) {
+      this.notchEnabled = enabled;
+      this.earStage?.setNotchEnabled(enabled);
+  }
+
+  public setNotchWidth(width: NotchWidth) {
+      this.notchWidth = width;
+      this.earStage?.setNotchWidth(this.effectiveNotchWidth());
+  }
+
+  // The notch is never narrower than the band the matched sound occupies
+  private effectiveNotchWidth(): number {
+      return Math.max(this.notchWidth, matchedBandwidth(this.toneCharacter));
+  }
+
+  public setSpace(space: GardenSpace) {
+      this.space = space;
+      this.reverb?.setSpace(space);
+  }
+
+  // Each ear's matched frequency drives that ear's processing chain
+  public setEarMatches(ears: EarMatches) {
+      this.ears = ears;
+      this.earStage?.setEars(ears);
+      this.piano?.update({ frequency: combineEarFrequencies(ears) });
+      this.drone?.update({ frequency: combineEarFrequencies(ears) });
+  }
+
+  // Applies to layers started after the change
+  public setPitchPolicies(policies: PitchPolicies) {
+      this.pitchPolicies = policies;
+  }
+
+  // Restarts the generative streams, so what plays from here on can be
+  // reproduced (and exported) from the same seed
+  public setSeed(seed: number) {
+      this.layerRandom = randomFor(seed, 'layers');
+      this.pianoRandom = randomFor(seed, 'piano');
+      this.piano?.update({ random: this.pianoRandom });
   }
 
   // Phase 1: Tinnitus Matching
-  public startTinnitusTone(frequency: number, vol: number) {
+  // The sound character (pure tone, narrowband noise, hiss, cluster) applies
+  // to the matching tone, the octave check and the frequency-following layers.
+  public setToneCharacter(character: ToneCharacter) {
+      this.toneCharacter = character;
+      this.earStage?.setNotchWidth(this.effectiveNotchWidth());
+      // Rebuild a playing tone with the new character
+      if (this.tinnitusSource) {
+          this.startTinnitusTone(this.tinnitusFrequency, this.tinnitusVolume, this.tinnitusEar);
+      }
+  }
+
+  // The tone is isolated to the ear being matched
+  public startTinnitusTone(frequency: number, vol: number, ear: Ear) {
     this.init();
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.outputGain) return;
 
-    if (this.tinnitusOsc) {
+    if (this.tinnitusSource) {
       this.stopTinnitusTone();
     }
 
-    this.tinnitusOsc = this.ctx.createOscillator();
+    this.tinnitusFrequency = frequency;
+    this.tinnitusVolume = vol;
+    this.tinnitusEar = ear;
+    this.tinnitusSource = createMatchingSource(this.ctx, this.toneCharacter, frequency);
     this.tinnitusGain = this.ctx.createGain();
-
-    this.tinnitusOsc.type = 'sine';
-    this.tinnitusOsc.frequency.setValueAtTime(frequency, this.ctx.currentTime);
+    this.tinnitusPan = this.ctx.createStereoPanner();
+    this.tinnitusPan.pan.value = ear === 'left' ? -1 : 1;
     
     this.tinnitusGain.gain.setValueAtTime(0, this.ctx.currentTime);
     this.tinnitusGain.gain.linearRampToValueAtTime(vol, this.ctx.currentTime + 0.1);
 
-    this.tinnitusOsc.connect(this.tinnitusGain);
-    this.tinnitusGain.connect(this.masterGain);
-    this.tinnitusOsc.start();
+    this.tinnitusSource.output.connect(this.tinnitusGain);
+    this.tinnitusGain.connect(this.tinnitusPan);
+    this.tinnitusPan.connect(this.outputGain);
+    this.tinnitusSource.start(this.ctx.currentTime);
+  }
+
+  // Plays a sequence of short tone bursts in one ear, scheduled on the audio
+  // clock (used for the octave check). Returns a function that silences the
+  // rest of the sequence, including bursts that haven't started yet.
+  public playToneSequence(frequencies: number[], vol: number, ear: Ear, toneDuration = 1.0, gap = 0.5): () => void {
+    this.init();
+    if (!this.ctx || !this.outputGain) return () => {};
+
+    const start = this.ctx.currentTime + 0.05;
+    const pan = this.ctx.createStereoPanner();
+    pan.pan.value = ear === 'left' ? -1 : 1;
+    pan.connect(this.outputGain);
+
+    const bursts: { source: MatchingSource; gain: GainNode }[] = [];
+    frequencies.forEach((frequency, i) => {
+      const t0 = start + i * (toneDuration + gap);
+      const source = createMatchingSource(this.ctx!, this.toneCharacter, frequency);
+      const gain = this.ctx!.createGain();
+      gain.gain.setValueAtTime(0, t0);
+      gain.gain.linearRampToValueAtTime(vol, t0 + 0.05);
+      gain.gain.setValueAtTime(vol, t0 + toneDuration - 0.1);
+      gain.gain.linearRampToValueAtTime(0, t0 + toneDuration);
+      source.output.connect(gain);
+      gain.connect(pan);
+      source.start(t0);
+      source.stop(t0 + toneDuration + 0.05);
+      bursts.push({ source, gain });
+      window.setTimeout(() => {
+        gain.disconnect();
+        if (i === frequencies.length - 1) pan.disconnect();
+      }, (t0 - this.ctx!.currentTime + toneDuration + 0.2) * 1000);
+    });
+
+    const ctx = this.ctx;
+    return () => {
+      const now = ctx.currentTime;
+      bursts.forEach(({ source, gain }) => {
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setTargetAtTime(0, now, 0.01);
+        try { source.stop(now + 0.05); } catch (e) { /* already stopped */ }
+      });
+    };
+  }
+
+  // Live level change during loudness matching
+  public setTinnitusLevel(db: number) {
+    this.tinnitusVolume = dbToGain(db);
+    if (this.tinnitusGain && this.tinnitusSource && this.ctx) {
+      this.tinnitusGain.gain.setTargetAtTime(dbToGain(db), this.ctx.currentTime, 0.05);
+    }
   }
 
   public updateTinnitusFreq(frequency: number) {
-    if (this.tinnitusOsc && this.ctx) {
-      this.tinnitusOsc.frequency.setTargetAtTime(frequency, this.ctx.currentTime, 0.1);
+    this.tinnitusFrequency = frequency;
+    this.tinnitusSource?.setFrequency(frequency);
+  }
+
+  public setTinnitusEar(ear: Ear) {
+    this.tinnitusEar = ear;
+    if (this.tinnitusPan && this.ctx) {
+      this.tinnitusPan.pan.setTargetAtTime(ear === 'left' ? -1 : 1, this.ctx.currentTime, 0.02);
     }
   }
 
@@ -115,12 +479,49 @@ class AudioEngine {
     if (this.tinnitusGain && this.ctx) {
       this.tinnitusGain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + 0.5);
     }
-    if (this.tinnitusOsc) {
-      this.tinnitusOsc.stop(this.ctx!.currentTime + 0.6);
-      this.tinnitusOsc = null;
+    if (this.tinnitusSource) {
+      this.tinnitusSource.stop(this.ctx!.currentTime + 0.6);
+      this.tinnitusSource = null;
+    }
+    this.tinnitusPan = null;
+  }
+
+  // Minimum Masking Level: broadband (pink) noise in both ears, raised by
+  // the user until it just covers the ringing
+  public startMaskingNoise(db: number) {
+    this.init();
+    if (!this.ctx || !this.outputGain) return;
+    if (this.maskingNoise) this.stopMaskingNoise();
+
+    const now = this.ctx.currentTime;
+    this.maskingNoise = this.ctx.createBufferSource();
+    this.maskingNoise.buffer = createPinkNoiseBuffer(this.ctx);
+    this.maskingNoise.loop = true;
+    this.maskingGain = this.ctx.createGain();
+    this.maskingGain.gain.setValueAtTime(0, now);
+    this.maskingGain.gain.linearRampToValueAtTime(dbToGain(db), now + 0.2);
+
+    this.maskingNoise.connect(this.maskingGain);
+    this.maskingGain.connect(this.outputGain);
+    this.maskingNoise.start(now);
+  }
+
+  public setMaskingNoiseLevel(db: number) {
+    if (this.maskingGain && this.ctx) {
+      this.maskingGain.gain.setTargetAtTime(dbToGain(db), this.ctx.currentTime, 0.05);
     }
   }
 
+  public stopMaskingNoise() {
+    if (!this.maskingNoise || !this.maskingGain || !this.ctx) return;
+    const now = this.ctx.currentTime;
+    this.maskingGain.gain.cancelScheduledValues(now);
+    this.maskingGain.gain.setTargetAtTime(0, now, 0.1);
+    this.maskingNoise.stop(now + 0.5);
+    this.maskingNoise = null;
+    this.maskingGain = null;
+  }
+
   // Phase 2: Start Background Atmosphere
   public startAmbientTrack(tinnitusFreq: number) {
     this.init();
@@ -142,106 +543,28 @@ class AudioEngine {
       else this.stopDrone();
   }
 
+  // A playing drone glides to a new root and crossfades to a new chord
+  public setDroneSettings(settings: DroneSettings) {
+      this.droneSettings = settings;
+      this.drone?.update({ settings });
+  }
+
   private startDrone() {
-      if (this.droneNodes.length > 0) return;
-      
+      if (this.drone) return;
       this.init();
-      if (!this.ctx || !this.masterGain) return;
-
-      const t = this.ctx.currentTime;
-      const root = 98.00; // G2 (Deep, warm)
-      
-      const nodes: AudioNode[] = [];
-      
-      // Master Gain for Drone
-      const droneMaster = this.ctx.createGain();
-      droneMaster.gain.value = 0; // Start silent
-      droneMaster.connect(this.masterGain);
-      nodes.push(droneMaster);
-
-      // --- LAYER 1: Main Body ---
-      const osc1 = this.ctx.createOscillator();
-      osc1.type = 'sawtooth';
-      osc1.frequency.value = root;
-      
-      const filter1 = this.ctx.createBiquadFilter();
-      filter1.type = 'lowpass';
-      filter1.frequency.value = 350; // Muffled
-      filter1.Q.value = 1;
-
-      osc1.connect(filter1);
-      filter1.connect(droneMaster);
-      nodes.push(osc1, filter1);
-
-      // --- LAYER 2: Detuned Texture ---
-      const osc2 = this.ctx.createOscillator();
-      osc2.type = 'sawtooth';
-      osc2.frequency.value = root;
-      osc2.detune.value = 10; 
-      
-      const filter2 = this.ctx.createBiquadFilter();
-      filter2.type = 'lowpass';
-      filter2.frequency.value = 400;
-      
-      osc2.connect(filter2);
-      filter2.connect(droneMaster);
-      nodes.push(osc2, filter2);
-
-      // --- LAYER 3: Sub Foundation ---
-      const osc3 = this.ctx.createOscillator();
-      osc3.type = 'sine';
-      osc3.frequency.value = root / 2; // G1
-      
-      const subGain = this.ctx.createGain();
-      subGain.gain.value = 0.4;
-      
-      osc3.connect(subGain);
-      subGain.connect(droneMaster);
-      nodes.push(osc3, subGain);
-
-      // --- LFO ---
-      const lfo = this.ctx.createOscillator();
-      lfo.frequency.value = 0.1; // 10s cycle
-      
-      const lfoGain = this.ctx.createGain();
-      lfoGain.gain.value = 100; 
-
-      lfo.connect(lfoGain);
-      lfoGain.connect(filter1.frequency);
-      lfoGain.connect(filter2.frequency);
-      nodes.push(lfo, lfoGain);
-
-      // Start
-      osc1.start(t);
-      osc2.start(t);
-      osc3.start(t);
-      lfo.start(t);
-
-      // Fade In
-      droneMaster.gain.linearRampToValueAtTime(0.06, t + 4.0); 
-
-      this.droneNodes = nodes;
+      if (!this.ctx || !this.mixer) return;
+      this.drone = startDrone(this.ctx, this.mixer.input('DRONE'), {
+          settings: this.droneSettings,
+          frequency: combineEarFrequencies(this.ears),
+      });
+      this.setLayerActive('DRONE', true);
   }
 
   private stopDrone() {
-      if (this.droneNodes.length > 0 && this.ctx) {
-          const master = this.droneNodes[0] as GainNode;
-          try {
-             master.gain.cancelScheduledValues(this.ctx.currentTime);
-             master.gain.linearRampToValueAtTime(0, this.ctx.currentTime + 1.5);
-             
-             const nodesToStop = this.droneNodes; 
-             setTimeout(() => {
-                 nodesToStop.forEach(n => {
-                     try { (n as any).stop?.(); } catch(e){}
-                     n.disconnect();
-                 });
-             }, 1600);
-          } catch(e) {
-              console.warn("Error stopping drone", e);
-          }
-          this.droneNodes = [];
-      }
+      if (!this.drone) return;
+      this.drone.stop();
+      this.drone = null;
+      this.setLayerActive('DRONE', false);
   }
 
   // --- HARMONY: PIANO (Generative) ---
@@ -250,431 +573,125 @@ class AudioEngine {
       else this.stopPiano();
   }
 
+  // Mode and tempo; a playing piano changes at its next phrase
+  public setPianoSettings(settings: PianoSettings) {
+      this.pianoSettings = settings;
+      this.piano?.update({ settings });
+  }
+
   private startPiano() {
-      if (this.pianoTimeout) return;
+      if (this.piano) return;
       this.init();
-      this.playNextPianoNote();
+      if (!this.ctx || !this.mixer) return;
+      this.piano = startPiano(this.ctx, this.mixer.input('PIANO'), {
+          settings: this.pianoSettings,
+          frequency: combineEarFrequencies(this.ears),
+          random: this.pianoRandom,
+      });
+      this.setLayerActive('PIANO', true);
   }
 
   private stopPiano() {
-      if (this.pianoTimeout) {
-          window.clearTimeout(this.pianoTimeout);
-          this.pianoTimeout = null;
-      }
+      if (!this.piano) return;
+      this.piano.stop();
+      this.piano = null;
+      this.setLayerActive('PIANO', false);
   }
 
-  private playNextPianoNote() {
-      if (!this.ctx || !this.masterGain) return;
-      
-      // G Minor Pentatonic
-      const scale = [196.00, 233.08, 261.63, 293.66, 349.23, 392.00, 466.16];
-      const freq = scale[Math.floor(Math.random() * scale.length)];
-      const velocity = 0.03 + Math.random() * 0.03; 
-
-      const t = this.ctx.currentTime;
-      
-      const osc = this.ctx.createOscillator();
-      osc.type = 'triangle';
-      osc.frequency.value = freq;
-      
-      const filter = this.ctx.createBiquadFilter();
-      filter.type = 'lowpass';
-      filter.frequency.value = 600 + Math.random() * 200; 
-      filter.Q.value = 0.5;
-
-      const gain = this.ctx.createGain();
-      
-      osc.connect(filter);
-      filter.connect(gain);
-      gain.connect(this.masterGain);
-
-      gain.gain.setValueAtTime(0, t);
-      gain.gain.linearRampToValueAtTime(velocity, t + 0.1); 
-      gain.gain.exponentialRampToValueAtTime(0.001, t + 4.0); 
-
-      osc.start(t);
-      osc.stop(t + 4.5);
-      
-      const nodeRef = osc;
-      nodeRef.onended = () => {
-          nodeRef.disconnect();
-          filter.disconnect();
-          gain.disconnect();
-      };
-
-      const nextTime = 2000 + Math.random() * 3000;
-      this.pianoTimeout = window.setTimeout(() => this.playNextPianoNote(), nextTime);
-  }
-
-
-  private createNoiseBuffer(): AudioBuffer {
-      if (!this.ctx) throw new Error("No Context");
-      const bufferSize = this.ctx.sampleRate * 2; // 2 seconds
-      const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-      const data = buffer.getChannelData(0);
-      for (let i = 0; i < bufferSize; i++) {
-          data[i] = Math.random() * 2 - 1;
-      }
-      return buffer;
-  }
-
-  private updateRainDynamics() {
-      if (!this.rainGainNode || !this.ctx) return;
-      const now = this.ctx.currentTime;
-      const othersPlaying = Array.from(this.activeSounds).some(t => t !== 'RAIN');
-      const targetVol = othersPlaying ? 0.05 : 0.15;
-      this.rainGainNode.gain.cancelScheduledValues(now);
-      this.rainGainNode.gain.setTargetAtTime(targetVol, now, 0.5); 
+  private setLayerActive(id: MixerChannelId, active: boolean) {
+      if (active) this.activeSounds.add(id);
+      else this.activeSounds.delete(id);
+      this.mixer?.setActiveChannels(this.activeSounds);
   }
 
   // Phase 3: Interactions
-  public playInteractionSound(type: 'BIRD' | 'WIND' | 'LEAVES' | 'WATER' | 'RAIN' | 'INSECT', tinnitusFreq: number, onEnded?: () => void): () => void {
+  public playInteractionSound(type: LayerId, tinnitusFreq: number, onEnded?: () => void): () => void {
     this.init();
-    if (!this.ctx || !this.masterGain) return () => {};
-    const t = this.ctx.currentTime;
-    
-    this.activeSounds.add(type);
-    this.updateRainDynamics();
-
-    let stopFn = () => {};
-    let internalStop = () => {};
-
-    const createSource = (buffer: AudioBuffer | null, loop: boolean = false) => {
-        if (!this.ctx) return null;
-        if (buffer) {
-            const src = this.ctx.createBufferSource();
-            src.buffer = buffer;
-            src.loop = loop;
-            return src;
-        }
-        return null;
-    };
+    const entry = this.entryFor(type);
+    if (!this.ctx || !this.mixer || !entry) return () => {};
+
+    this.setLayerActive(type, true);
+    const stop = startLayerSound(
+      this.ctx,
+      entry,
+      this.bufferFor(type),
+      this.mixer.input(type),
+      this.layerOptions(type, tinnitusFreq, this.layerRandom),
+      () => {
+        this.setLayerActive(type, false);
+        onEnded?.();
+      }
+    );
 
-    const fadeInOut = (gainNode: GainNode, duration: number = 0, loop: boolean = false, fadeTime: number = 0.5, targetVol: number = 0.6) => {
-        gainNode.gain.setValueAtTime(0, t);
-        gainNode.gain.linearRampToValueAtTime(targetVol, t + fadeTime);
-        if (!loop && duration > 0) {
-            gainNode.gain.setValueAtTime(targetVol, t + duration - fadeTime);
-            gainNode.gain.linearRampToValueAtTime(0, t + duration);
-        }
+    // Wrapper stop function to handle state tracking
+    return () => {
+      stop();
+      this.setLayerActive(type, false);
     };
+  }
 
-    // Calculate pitch shifting based on tinnitus frequency match
-    const calculatePitch = (baseFreq: number, aggressive: boolean = true) => {
-        const ratio = tinnitusFreq / baseFreq;
-        if (aggressive) {
-            return Math.max(0.5, Math.min(2.5, ratio));
-        } else {
-            return Math.max(0.6, Math.min(1.8, Math.sqrt(ratio)));
-        }
-    };
+  private layerOptions(id: LayerId, frequency: number, random: Random): LayerOptions {
+    return { frequency, pitchPolicy: policyFor(this.pitchPolicies, id), toneCharacter: this.toneCharacter, random };
+  }
 
-    // --- INTERACTION LOGIC ---
-
-    if (type === 'BIRD') {
-        const src = createSource(this.birdBuffer);
-        const rate = calculatePitch(8000, true); 
-        
-        if (src) {
-             const gain = this.ctx.createGain();
-             src.playbackRate.value = rate;
-             src.connect(gain);
-             gain.connect(this.masterGain);
-             // Slightly louder for samples
-             fadeInOut(gain, src.buffer!.duration / rate, false, 0.2, 0.7); 
-             src.start(t);
-             src.onended = () => {
-                 this.activeSounds.delete(type);
-                 this.updateRainDynamics();
-                 if(onEnded) onEnded();
-             };
-             internalStop = () => { try { src.stop(this.ctx!.currentTime + 0.5); gain.gain.linearRampToValueAtTime(0, this.ctx!.currentTime + 0.5); } catch(e){} };
-        } else {
-             // Fallback: FM Synthesis for more realistic chirp
-             const carrier = this.ctx.createOscillator();
-             const modulator = this.ctx.createOscillator();
-             const modGain = this.ctx.createGain();
-             const mainGain = this.ctx.createGain();
-
-             carrier.type = 'sine';
-             carrier.frequency.setValueAtTime(2000, t);
-             carrier.frequency.exponentialRampToValueAtTime(1200, t + 0.15);
-
-             modulator.type = 'sine';
-             modulator.frequency.value = 40;
-             modGain.gain.value = 500;
-
-             modulator.connect(modGain);
-             modGain.connect(carrier.frequency);
-             
-             carrier.connect(mainGain);
-             mainGain.connect(this.masterGain);
-
-             mainGain.gain.setValueAtTime(0, t);
-             mainGain.gain.linearRampToValueAtTime(0.1, t + 0.05);
-             mainGain.gain.exponentialRampToValueAtTime(0.001, t + 0.4);
-
-             carrier.start(t);
-             modulator.start(t);
-             carrier.stop(t + 0.5);
-             modulator.stop(t + 0.5);
-
-             setTimeout(() => {
-                 this.activeSounds.delete(type);
-                 this.updateRainDynamics();
-                 if(onEnded) onEnded();
-             }, 500);
-        }
-    } 
-    else if (type === 'LEAVES') {
-        const src = createSource(this.leavesBuffer, true);
-        const gain = this.ctx.createGain();
-        const rate = calculatePitch(8000, false);
-        
-        if (src) {
-             src.playbackRate.value = rate * (0.9 + Math.random() * 0.2); 
-             src.connect(gain);
-             src.start(t);
-             gain.connect(this.masterGain);
-             fadeInOut(gain, 0, true, 0.3, 0.6);
-             internalStop = () => {
-                const now = this.ctx!.currentTime;
-                gain.gain.cancelScheduledValues(now);
-                gain.gain.linearRampToValueAtTime(0, now + 0.6);
-                if (src) src.stop(now + 0.7);
-            };
-        } else {
-             // Fallback: Filtered Pink Noise
-             const buffer = this.createNoiseBuffer();
-             const noiseSrc = this.ctx.createBufferSource();
-             noiseSrc.buffer = buffer;
-             noiseSrc.loop = true;
-             
-             const filter = this.ctx.createBiquadFilter();
-             filter.type = 'highpass';
-             filter.frequency.value = 1200; 
-             filter.Q.value = 1.0;
-
-             // Dynamic LFO for rustling
-             const lfo = this.ctx.createOscillator();
-             lfo.frequency.value = 1.5;
-             const lfoGain = this.ctx.createGain();
-             lfoGain.gain.value = 300;
-             lfo.connect(lfoGain);
-             lfoGain.connect(filter.frequency);
-
-             noiseSrc.connect(filter);
-             filter.connect(gain);
-             gain.connect(this.masterGain);
-             
-             noiseSrc.start(t);
-             lfo.start(t);
-
-             fadeInOut(gain, 0, true, 0.5, 0.15); // Quiet
-
-             internalStop = () => { 
-                 const now = this.ctx!.currentTime;
-                 gain.gain.linearRampToValueAtTime(0, now + 0.5);
-                 noiseSrc.stop(now + 0.6); 
-                 lfo.stop(now + 0.6);
-             }; 
-        }
-    }
-    else if (type === 'WIND') {
-        const src = createSource(this.windBuffer, true);
-        const gain = this.ctx.createGain();
-        const rate = calculatePitch(8000, false); 
-        
-        if (src) {
-             src.playbackRate.value = rate;
-             src.connect(gain);
-             src.start(t);
-             gain.connect(this.masterGain);
-             fadeInOut(gain, 0, true, 1.0, 0.8);
-             internalStop = () => {
-                const now = this.ctx!.currentTime;
-                gain.gain.cancelScheduledValues(now);
-                gain.gain.linearRampToValueAtTime(0, now + 1.5);
-                if (src) src.stop(now + 1.6);
-            };
-        } else {
-             // Fallback: Lowpass noise with slow LFO
-             const buffer = this.createNoiseBuffer();
-             const noiseSrc = this.ctx.createBufferSource();
-             noiseSrc.buffer = buffer;
-             noiseSrc.loop = true;
-             const filter = this.ctx.createBiquadFilter();
-             filter.type = 'lowpass';
-             filter.frequency.value = 300;
-             filter.Q.value = 0.5;
-
-             noiseSrc.connect(filter);
-             filter.connect(gain);
-             gain.connect(this.masterGain);
-             noiseSrc.start(t);
-             
-             fadeInOut(gain, 0, true, 2.0, 0.25);
-             internalStop = () => { 
-                 const now = this.ctx!.currentTime;
-                 gain.gain.linearRampToValueAtTime(0, now + 2.0);
-                 noiseSrc.stop(now + 2.1); 
-             };
-        }
-    }
-    else if (type === 'WATER') {
-        const src = createSource(this.waterBuffer, true);
-        const gain = this.ctx.createGain();
-        const rate = calculatePitch(8000, false);
-
-        if (src) {
-            src.playbackRate.value = rate * (0.95 + Math.random() * 0.1);
-            src.connect(gain);
-            src.start(t);
-            gain.connect(this.masterGain);
-            fadeInOut(gain, 0, true, 1.5, 0.7); 
-            internalStop = () => {
-                const now = this.ctx!.currentTime;
-                gain.gain.cancelScheduledValues(now);
-                gain.gain.linearRampToValueAtTime(0, now + 1.5);
-                if (src) src.stop(now + 1.6);
-            };
-        } else {
-             // Fallback: Brown noise approx
-             const buffer = this.createNoiseBuffer();
-             const noiseSrc = this.ctx.createBufferSource();
-             noiseSrc.buffer = buffer;
-             noiseSrc.loop = true;
-             
-             const filter = this.ctx.createBiquadFilter();
-             filter.type = 'lowpass';
-             filter.frequency.value = 150; 
-             
-             noiseSrc.connect(filter);
-             filter.connect(gain);
-             gain.connect(this.masterGain);
-             noiseSrc.start(t);
-             
-             fadeInOut(gain, 0, true, 2.0, 0.3);
-             internalStop = () => { 
-                 const now = this.ctx!.currentTime;
-                 gain.gain.linearRampToValueAtTime(0, now + 2.0);
-                 noiseSrc.stop(now + 2.1); 
-             };
-        }
-    }
-    else if (type === 'RAIN') {
-        const src = createSource(this.rainBuffer, true);
-        const gain = this.ctx.createGain();
-        const rate = calculatePitch(8000, false);
-        this.rainGainNode = gain;
-
-        if (src) {
-            src.playbackRate.value = rate;
-            src.connect(gain);
-            src.start(t);
-            gain.connect(this.masterGain);
-            
-            const othersPlaying = Array.from(this.activeSounds).some(t => t !== 'RAIN');
-            const startVol = othersPlaying ? 0.05 : 0.15;
-            gain.gain.setValueAtTime(0, t);
-            gain.gain.linearRampToValueAtTime(startVol, t + 0.8);
-
-            internalStop = () => {
-                const now = this.ctx!.currentTime;
-                this.rainGainNode = null; 
-                gain.gain.cancelScheduledValues(now);
-                gain.gain.linearRampToValueAtTime(0, now + 0.8);
-                if (src) src.stop(now + 0.9);
-            };
-        } else {
-             // Fallback: Highpass noise
-             const buffer = this.createNoiseBuffer();
-             const noiseSrc = this.ctx.createBufferSource();
-             noiseSrc.buffer = buffer;
-             noiseSrc.loop = true;
-             const filter = this.ctx.createBiquadFilter();
-             filter.type = 'highpass';
-             filter.frequency.value = 800; 
-             
-             noiseSrc.connect(filter);
-             filter.connect(gain);
-             gain.connect(this.masterGain);
-             noiseSrc.start(t);
-             
-             // Volume logic same as sampled
-             const othersPlaying = Array.from(this.activeSounds).some(t => t !== 'RAIN');
-             const startVol = othersPlaying ? 0.03 : 0.08;
-             gain.gain.setValueAtTime(0, t);
-             gain.gain.linearRampToValueAtTime(startVol, t + 1.0);
-
-             internalStop = () => { 
-                 const now = this.ctx!.currentTime;
-                 this.rainGainNode = null;
-                 gain.gain.linearRampToValueAtTime(0, now + 1.0);
-                 noiseSrc.stop(now + 1.1); 
-             };
+  // --- EXPORT ---
+  // Renders the given mix through a copy of the live chain (mixer, ducking,
+  // per-ear notch, normaliser, master level, limiter) on an offline context. All variation comes
+  // from the seed, so the same options give the same samples every time.
+  // Spatial placement follows the camera, so the export is mixed dry.
+  public async renderTrack(options: TrackRenderOptions): Promise<Float32Array[]> {
+    const duration = renderLength(options.durationSeconds);
+    const ctx = new OfflineAudioContext(2, Math.ceil(duration * EXPORT_SAMPLE_RATE), EXPORT_SAMPLE_RATE);
+    const random = randomFor(options.seed, 'layers');
+    const pianoRandom = randomFor(options.seed, 'piano');
+
+    const limiter = new Limiter(ctx, this.outputCeilingDb);
+    limiter.output.connect(ctx.destination);
+
+    const master = ctx.createGain();
+    master.gain.value = dbToGain(this.masterLevelDb);
+    master.connect(limiter.input);
+
+    const normaliser = new LoudnessNormaliser(ctx, this.normaliseLoudness, this.normaliser?.gainDb ?? 0);
+    normaliser.output.connect(master);
+
+    const earStage = new EarStage(ctx, this.ears, this.effectiveNotchWidth());
+    earStage.setNotchEnabled(this.notchEnabled);
+    earStage.output.connect(normaliser.input);
+
+    const mixer = new Mixer(ctx, this.mixerSettings, this.duckingRules, this.channels());
+    mixer.output.connect(earStage.input);
+    const reverb = new SendReverb(ctx, this.space);
+    mixer.send.connect(reverb.input);
+    reverb.output.connect(earStage.input);
+
+    const active = new Set<MixerChannelId>(options.sounds);
+    if (options.droneActive) active.add('DRONE');
+    if (options.pianoActive) active.add('PIANO');
+    mixer.setActiveChannels(active);
+
+    options.sounds.forEach(type => {
+      const layerOptions = this.layerOptions(type, options.frequency, random);
+      const entry = this.entryFor(type);
+      const buffer = this.bufferFor(type);
+      if (!entry) return;
+      if (!entry.loop) {
+        // One-shot calls (birds) are scattered through the track
+        for (let t = random() * 4; t < duration; t += 8 + random() * 12) {
+          startLayerSound(ctx, entry, buffer, mixer.input(type), layerOptions, undefined, t);
         }
-    }
-    else if (type === 'INSECT') {
-        const src = createSource(this.insectBuffer, true);
-        const gain = this.ctx.createGain();
-        const rate = calculatePitch(8000, true);
-
-        if (src) {
-            src.playbackRate.value = rate;
-            src.connect(gain);
-            src.start(t);
-            gain.connect(this.masterGain);
-            fadeInOut(gain, 0, true, 0.3, 0.5); // Lower volume for shrill sounds
-            
-            internalStop = () => {
-                const now = this.ctx!.currentTime;
-                gain.gain.cancelScheduledValues(now);
-                gain.gain.linearRampToValueAtTime(0, now + 0.5);
-                if(src) src.stop(now + 0.6);
-            };
-        } else {
-             // Fallback: Modulated High Sine
-             const carrier = this.ctx.createOscillator();
-             const modulator = this.ctx.createOscillator();
-             const modGain = this.ctx.createGain();
-             const mainGain = this.ctx.createGain();
-             
-             carrier.type = 'triangle';
-             carrier.frequency.value = tinnitusFreq > 0 ? tinnitusFreq : 6000; 
-             
-             modulator.type = 'square';
-             modulator.frequency.value = 30; // Faster buzz
-             modGain.gain.value = 800;
-
-             modulator.connect(modGain);
-             modGain.connect(carrier.frequency);
-             
-             carrier.connect(mainGain);
-             mainGain.connect(this.masterGain);
-             
-             carrier.start(t);
-             modulator.start(t);
-
-             fadeInOut(mainGain, 0, true, 0.5, 0.05); // Very quiet for synth insect
-             
-             internalStop = () => { 
-                 const now = this.ctx!.currentTime;
-                 mainGain.gain.linearRampToValueAtTime(0, now + 0.3);
-                 carrier.stop(now + 0.4); 
-                 modulator.stop(now + 0.4); 
-             };
-        }
-    }
+      } else {
+        startLayerSound(ctx, entry, buffer, mixer.input(type), layerOptions);
+      }
+    });
 
-    // Wrapper stop function to handle state tracking
-    stopFn = () => {
-        internalStop();
-        this.activeSounds.delete(type);
-        this.updateRainDynamics(); 
-    };
+    if (options.droneActive) startDrone(ctx, mixer.input('DRONE'), { settings: this.droneSettings, frequency: options.frequency });
+    if (options.pianoActive) {
+      startPiano(ctx, mixer.input('PIANO'), { settings: this.pianoSettings, frequency: options.frequency, random: pianoRandom }, 0.5);
+    }
 
-    return stopFn;
+    const rendered = await ctx.startRendering();
+    return extractLoop(rendered, options.durationSeconds);
   }
 }
 
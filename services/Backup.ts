@@ -0,0 +1,363 @@
+import { DuckingRule, PitchPolicy, Preset, Profile } from '../types';
+import { MIXER_CHANNELS } from './Mixer';
+import { EARS } from './EarStage';
+import { TONE_TYPES } from './MatchingTone';
+import { DEFAULT_PREFERENCES } from './ProfileStore';
+import { MAX_SEED } from './random';
+import { PITCH_POLICIES, legacyPitchPolicies } from './PitchPolicy';
+import { MAX_PIANO_TEMPO, MIN_PIANO_TEMPO, PIANO_MODES } from './Piano';
+import { DRONE_TIMBRES, DRONE_VOICINGS } from './Drone';
+import { GARDEN_SPACES } from './Reverb';
+import { MAX_OUTPUT_CEILING_DB, MIN_OUTPUT_CEILING_DB } from './Safety';
+import { MAX_MATCH_FREQ, MIN_MATCH_FREQ } from './frequency';
+
+/*
+ * Backup file format
+ * ------------------
+ * A single JSON object. Every section is optional on import.
+ *
+ * {
+ *   "format": "resonance-garden",       // Always this string
+ *   "version": 2,                        // Format version, see BACKUP_VERSION
+ *   "exportedAt": "2025-01-01T12:00:00Z",
+ *   "profiles": [Profile],               // See `Profile` in types.ts
+ *   "presets": [Preset],                 // Saved soundscapes, see `Preset`
+ *   "duckingRules": [DuckingRule]        // The ducking matrix
+ * }
+ *
+ * Profile:     id, name, createdAt, updatedAt (ms since epoch), ears
+ *              ({ left, right } of { frequency 125-16000 Hz, affected,
+ *              confidence 0-1 or null }), confirmed, toneCharacter ({ type,
+ *              bandwidth octaves }), loudnessDb and mmlDb (dBFS or null), history
+ *              ([{ date, ears, loudnessDb, mmlDb }]), lastMix ({ sounds,
+ *              droneActive, pianoActive, mixer }) and preferences (any
+ *              missing preference takes its default; pitchPolicies maps
+ *              layers to SHIFT, EMPHASIS or NATURAL; piano is { mode, tempo
+ *              BPM, pedal }; drone is { followMatch, voicing, timbre, level
+ *              and brightness 0-1 }; space is FOREST_CLEARING,
+ *              STONE_PAVILION or OPEN_LAKE; outputCeilingDb is -24 to 0
+ *              dBFS). Mixer channels are { gain, muted, solo, pan, send }.
+ * Preset:      id, name, sounds, plus optional volumes ({ channel: gain }),
+ *              droneActive, pianoActive, pitchPolicies ({ layer: policy }),
+ *              space, duckingRules and seed (integer, 0-4294967295).
+ * DuckingRule: id, source (channel or "ANY"), target (channel), amount (dB),
+ *              attack and release (seconds).
+ *
+ * Sounds and channels may name imported layers ("user-…"). Their audio is
+ * not part of the backup; layers missing on this device are skipped.
+ *
+ * Files from older versions are upgraded step by step through MIGRATIONS
+ * before validation. Files from a newer version are rejected.
+ */
+
+export const BACKUP_FORMAT = 'resonance-garden';
+export const BACKUP_VERSION = 2;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  profiles?: Profile[];
+  presets?: Preset[];
+  duckingRules?: DuckingRule[];
+}
+
+export interface BackupContents {
+  profiles?: Profile[];
+  presets?: Preset[];
+  duckingRules?: DuckingRule[];
+}
+
+// Thrown for files that can't be imported; `problems` lists each offending
+// field as "path: what was expected"
+export class BackupError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// Each entry upgrades a file from `version` to `version + 1`
+// Migrations run before validation: anything they don't recognise is
+// passed along for the checks to report
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 1 had one pitch policy for every layer
+  1: data => {
+    const upgrade = (holder: unknown) => {
+      if (!isObject(holder) || holder.pitchPolicy === undefined) return holder;
+      const { pitchPolicy, ...rest } = holder;
+      // Copied into every layer's policy, where validation checks it
+      return { ...rest, pitchPolicies: legacyPitchPolicies(pitchPolicy as PitchPolicy) };
+    };
+    return {
+      ...data,
+      profiles: Array.isArray(data.profiles)
+        ? data.profiles.map(profile => isObject(profile) ? { ...profile, preferences: upgrade(profile.preferences) } : profile)
+        : data.profiles,
+      presets: Array.isArray(data.presets) ? data.presets.map(upgrade) : data.presets,
+    };
+  },
+};
+
+export const createBackup = (contents: BackupContents): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...contents,
+});
+
+export const backupFileName = (date = new Date()) =>
+  `resonance-garden-${date.toISOString().slice(0, 10)}.json`;
+
+// --- Validation ---
+// Checks collect every problem instead of stopping at the first one, so a
+// broken file can be fixed in one go.
+
+type Problems = string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNumber = (value: unknown, path: string, problems: Problems, min = -Infinity, max = Infinity, nullable = false) => {
+  if (nullable && value === null) return;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    const range = min > -Infinity && max < Infinity ? ` between ${min} and ${max}` : '';
+    problems.push(`${path}: expected a number${range}${nullable ? ' or null' : ''}`);
+  }
+};
+
+const checkString = (value: unknown, path: string, problems: Problems) => {
+  if (typeof value !== 'string' || value.trim() === '') problems.push(`${path}: expected a non-empty string`);
+};
+
+const checkBoolean = (value: unknown, path: string, problems: Problems) => {
+  if (typeof value !== 'boolean') problems.push(`${path}: expected true or false`);
+};
+
+const checkOneOf = (value: unknown, allowed: readonly string[], path: string, problems: Problems) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    problems.push(`${path}: expected one of ${allowed.join(', ')}`);
+  }
+};
+
+const checkArray = (value: unknown, path: string, problems: Problems): value is unknown[] => {
+  if (Array.isArray(value)) return true;
+  problems.push(`${path}: expected a list`);
+  return false;
+};
+
+const checkObject = (value: unknown, path: string, problems: Problems): value is Record<string, unknown> => {
+  if (isObject(value)) return true;
+  problems.push(`${path}: expected an object`);
+  return false;
+};
+
+const INTERACTION_TYPES = MIXER_CHANNELS.filter(id => id !== 'DRONE' && id !== 'PIANO');
+const USER_LAYER_ID = /^user-[\w-]+$/;
+
+const isUserLayerRef = (value: unknown): value is string => typeof value === 'string' && USER_LAYER_ID.test(value);
+
+// One of `allowed`, or an imported layer
+const checkChannel = (value: unknown, allowed: readonly string[], path: string, problems: Problems) => {
+  if (!isUserLayerRef(value)) checkOneOf(value, allowed, path, problems);
+};
+
+const checkPitchPolicies = (value: unknown, path: string, problems: Problems) => {
+  if (!checkObject(value, path, problems)) return;
+  Object.keys(value).forEach(id => {
+    if (!(INTERACTION_TYPES as string[]).includes(id) && !isUserLayerRef(id)) {
+      problems.push(`${path}.${id}: unknown layer`);
+    } else {
+      checkOneOf(value[id], PITCH_POLICIES, `${path}.${id}`, problems);
+    }
+  });
+};
+
+const checkSounds = (value: unknown, path: string, problems: Problems) => {
+  if (!checkArray(value, path, problems)) return;
+  value.forEach((sound, i) => checkChannel(sound, INTERACTION_TYPES, `${path}[${i}]`, problems));
+};
+
+const checkEars = (value: unknown, path: string, problems: Problems) => {
+  if (!checkObject(value, path, problems)) return;
+  EARS.forEach(ear => {
+    const match = value[ear];
+    const earPath = `${path}.${ear}`;
+    if (!checkObject(match, earPath, problems)) return;
+    checkNumber(match.frequency, `${earPath}.frequency`, problems, MIN_MATCH_FREQ, MAX_MATCH_FREQ);
+    checkBoolean(match.affected, `${earPath}.affected`, problems);
+    checkNumber(match.confidence, `${earPath}.confidence`, problems, 0, 1, true);
+  });
+};
+
+const checkMixer = (value: unknown, path: string, problems: Problems) => {
+  if (!checkObject(value, path, problems)) return;
+  [...MIXER_CHANNELS, ...Object.keys(value).filter(isUserLayerRef)].forEach(id => {
+    const channel = value[id];
+    const channelPath = `${path}.${id}`;
+    if (!checkObject(channel, channelPath, problems)) return;
+    checkNumber(channel.gain, `${channelPath}.gain`, problems, 0, 1.5);
+    checkBoolean(channel.muted, `${channelPath}.muted`, problems);
+    checkBoolean(channel.solo, `${channelPath}.solo`, problems);
+    checkNumber(channel.pan, `${channelPath}.pan`, problems, -1, 1);
+    if (channel.send !== undefined) checkNumber(channel.send, `${channelPath}.send`, problems, 0, 1);
+  });
+};
+
+const checkDuckingRule = (value: unknown, path: string, problems: Problems) => {
+  if (!checkObject(value, path, problems)) return;
+  checkString(value.id, `${path}.id`, problems);
+  checkChannel(value.source, [...MIXER_CHANNELS, 'ANY'], `${path}.source`, problems);
+  checkChannel(value.target, MIXER_CHANNELS, `${path}.target`, problems);
+  checkNumber(value.amount, `${path}.amount`, problems, 0, 60);
+  checkNumber(value.attack, `${path}.attack`, problems, 0.01, 60);
+  checkNumber(value.release, `${path}.release`, problems, 0.01, 60);
+};
+
+const checkDuckingRules = (value: unknown, path: string, problems: Problems) => {
+  if (!checkArray(value, path, problems)) return;
+  value.forEach((rule, i) => checkDuckingRule(rule, `${path}[${i}]`, problems));
+};
+
+const checkPreset = (value: unknown, path: string, problems: Problems) => {
+  if (!checkObject(value, path, problems)) return;
+  checkString(value.id, `${path}.id`, problems);
+  checkString(value.name, `${path}.name`, problems);
+  checkSounds(value.sounds, `${path}.sounds`, problems);
+  if (value.volumes !== undefined && checkObject(value.volumes, `${path}.volumes`, problems)) {
+    Object.keys(value.volumes).forEach(id => {
+      if (!(MIXER_CHANNELS as string[]).includes(id) && !isUserLayerRef(id)) {
+        problems.push(`${path}.volumes.${id}: unknown channel`);
+      } else {
+        checkNumber(value.volumes[id], `${path}.volumes.${id}`, problems, 0, 1.5);
+      }
+    });
+  }
+  if (value.droneActive !== undefined) checkBoolean(value.droneActive, `${path}.droneActive`, problems);
+  if (value.pianoActive !== undefined) checkBoolean(value.pianoActive, `${path}.pianoActive`, problems);
+  if (value.pitchPolicies !== undefined) checkPitchPolicies(value.pitchPolicies, `${path}.pitchPolicies`, problems);
+  if (value.space !== undefined) checkOneOf(value.space, Object.keys(GARDEN_SPACES), `${path}.space`, problems);
+  if (value.duckingRules !== undefined) checkDuckingRules(value.duckingRules, `${path}.duckingRules`, problems);
+  if (value.seed !== undefined) checkNumber(value.seed, `${path}.seed`, problems, 0, MAX_SEED);
+};
+
+const checkProfile = (value: unknown, path: string, problems: Problems) => {
+  if (!checkObject(value, path, problems)) return;
+  checkString(value.id, `${path}.id`, problems);
+  checkString(value.name, `${path}.name`, problems);
+  checkNumber(value.createdAt, `${path}.createdAt`, problems, 0);
+  checkNumber(value.updatedAt, `${path}.updatedAt`, problems, 0);
+  checkEars(value.ears, `${path}.ears`, problems);
+  checkBoolean(value.confirmed, `${path}.confirmed`, problems);
+
+  if (checkObject(value.toneCharacter, `${path}.toneCharacter`, problems)) {
+    checkOneOf(value.toneCharacter.type, TONE_TYPES, `${path}.toneCharacter.type`, problems);
+    checkNumber(value.toneCharacter.bandwidth, `${path}.toneCharacter.bandwidth`, problems, 0, 4);
+  }
+  checkNumber(value.loudnessDb, `${path}.loudnessDb`, problems, -120, 0, true);
+  checkNumber(value.mmlDb, `${path}.mmlDb`, problems, -120, 0, true);
+
+  if (checkArray(value.history, `${path}.history`, problems)) {
+    value.history.forEach((entry, i) => {
+      const entryPath = `${path}.history[${i}]`;
+      if (!checkObject(entry, entryPath, problems)) return;
+      checkNumber(entry.date, `${entryPath}.date`, problems, 0);
+      checkEars(entry.ears, `${entryPath}.ears`, problems);
+      checkNumber(entry.loudnessDb, `${entryPath}.loudnessDb`, problems, -120, 0, true);
+      checkNumber(entry.mmlDb, `${entryPath}.mmlDb`, problems, -120, 0, true);
+    });
+  }
+
+  if (checkObject(value.lastMix, `${path}.lastMix`, problems)) {
+    checkSounds(value.lastMix.sounds, `${path}.lastMix.sounds`, problems);
+    checkBoolean(value.lastMix.droneActive, `${path}.lastMix.droneActive`, problems);
+    checkBoolean(value.lastMix.pianoActive, `${path}.lastMix.pianoActive`, problems);
+    checkMixer(value.lastMix.mixer, `${path}.lastMix.mixer`, problems);
+  }
+
+  // Preferences may be partial; only what is present is checked
+  if (value.preferences !== undefined && checkObject(value.preferences, `${path}.preferences`, problems)) {
+    const prefs = value.preferences;
+    const prefPath = `${path}.preferences`;
+    if (prefs.masterLevelDb !== undefined) checkNumber(prefs.masterLevelDb, `${prefPath}.masterLevelDb`, problems, -60, 0);
+    if (prefs.notchActive !== undefined) checkBoolean(prefs.notchActive, `${prefPath}.notchActive`, problems);
+    if (prefs.notchWidth !== undefined && prefs.notchWidth !== 0.5 && prefs.notchWidth !== 1) {
+      problems.push(`${prefPath}.notchWidth: expected 0.5 or 1`);
+    }
+    if (prefs.spatialAudio !== undefined) checkBoolean(prefs.spatialAudio, `${prefPath}.spatialAudio`, problems);
+    if (prefs.pitchPolicies !== undefined) checkPitchPolicies(prefs.pitchPolicies, `${prefPath}.pitchPolicies`, problems);
+    if (prefs.piano !== undefined && checkObject(prefs.piano, `${prefPath}.piano`, problems)) {
+      checkOneOf(prefs.piano.mode, Object.keys(PIANO_MODES), `${prefPath}.piano.mode`, problems);
+      checkNumber(prefs.piano.tempo, `${prefPath}.piano.tempo`, problems, MIN_PIANO_TEMPO, MAX_PIANO_TEMPO);
+      if (prefs.piano.pedal !== undefined) checkBoolean(prefs.piano.pedal, `${prefPath}.piano.pedal`, problems);
+    }
+    if (prefs.drone !== undefined && checkObject(prefs.drone, `${prefPath}.drone`, problems)) {
+      checkBoolean(prefs.drone.followMatch, `${prefPath}.drone.followMatch`, problems);
+      checkOneOf(prefs.drone.voicing, Object.keys(DRONE_VOICINGS), `${prefPath}.drone.voicing`, problems);
+      checkOneOf(prefs.drone.timbre, Object.keys(DRONE_TIMBRES), `${prefPath}.drone.timbre`, problems);
+      checkNumber(prefs.drone.level, `${prefPath}.drone.level`, problems, 0, 1);
+      checkNumber(prefs.drone.brightness, `${prefPath}.drone.brightness`, problems, 0, 1);
+    }
+    if (prefs.space !== undefined) checkOneOf(prefs.space, Object.keys(GARDEN_SPACES), `${prefPath}.space`, problems);
+    if (prefs.outputCeilingDb !== undefined) {
+      checkNumber(prefs.outputCeilingDb, `${prefPath}.outputCeilingDb`, problems, MIN_OUTPUT_CEILING_DB, MAX_OUTPUT_CEILING_DB);
+    }
+    if (prefs.normaliseLoudness !== undefined) checkBoolean(prefs.normaliseLoudness, `${prefPath}.normaliseLoudness`, problems);
+    if (prefs.sessionFadeSeconds !== undefined) checkNumber(prefs.sessionFadeSeconds, `${prefPath}.sessionFadeSeconds`, problems, 0, 3600);
+    if (prefs.sleepMode !== undefined) checkBoolean(prefs.sleepMode, `${prefPath}.sleepMode`, problems);
+  }
+};
+
+// Parses, migrates and validates a backup file's text
+export const parseBackup = (text: string): BackupContents => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not valid JSON.');
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError('This is not a Resonance Garden backup file.', [`format: expected "${BACKUP_FORMAT}"`]);
+  }
+  const version = parsed.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new BackupError('The backup file has no valid version.', ['version: expected a whole number of 1 or more']);
+  }
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(
+      `This backup was made by a newer version of the app (format ${version}). Update the app to import it.`
+    );
+  }
+
+  let data = parsed;
+  for (let v = version; v < BACKUP_VERSION; v++) {
+    data = { ...MIGRATIONS[v](data), version: v + 1 };
+  }
+
+  const problems: Problems = [];
+  if (data.profiles !== undefined && checkArray(data.profiles, 'profiles', problems)) {
+    data.profiles.forEach((profile, i) => checkProfile(profile, `profiles[${i}]`, problems));
+  }
+  if (data.presets !== undefined && checkArray(data.presets, 'presets', problems)) {
+    data.presets.forEach((preset, i) => checkPreset(preset, `presets[${i}]`, problems));
+  }
+  if (data.duckingRules !== undefined) checkDuckingRules(data.duckingRules, 'duckingRules', problems);
+
+  if (problems.length > 0) {
+    throw new BackupError(`The backup file has ${problems.length} invalid field${problems.length === 1 ? '' : 's'}.`, problems);
+  }
+  if (data.profiles === undefined && data.presets === undefined && data.duckingRules === undefined) {
+    throw new BackupError('The backup file contains no profiles, presets or ducking rules.');
+  }
+
+  // Every section present has passed its checks, so it has its type
+  return {
+    profiles: (data.profiles as Profile[] | undefined)?.map(profile => ({
+      ...profile,
+      preferences: { ...DEFAULT_PREFERENCES, ...profile.preferences },
+    })),
+    presets: data.presets as Preset[] | undefined,
+    duckingRules: data.duckingRules as DuckingRule[] | undefined,
+  };
+};
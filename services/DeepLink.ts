@@ -0,0 +1,98 @@
+import { LayerId, MixerChannelId } from '../types';
+import { MIXER_CHANNELS } from './Mixer';
+import { isUserLayerId } from './UserLayers';
+import { MAX_MATCH_FREQ, MIN_MATCH_FREQ, roundFrequency } from './frequency';
+import { MAX_SEED } from './random';
+
+// Shareable links carry a frequency and a mix in the URL fragment, e.g.
+//
+//   #f=6200&l=rain:80,water:60,wind,drone:50&s=1234567
+//
+//   f  matched frequency in Hz (125-16000, one decimal)
+//   l  playing channels, comma separated. `drone` and `piano` switch the
+//      harmony on. `:n` is the fader level in percent (0-150); without it
+//      the channel keeps its current level.
+//   s  optional generative seed, so the garden and piano come out the same
+//
+// Imported layers only exist on the device they were imported on, so
+// links leave them out.
+//
+// The fragment never reaches a server, and unknown keys are ignored so
+// later versions can add to it.
+
+export interface MixLink {
+  frequency: number;
+  sounds: LayerId[];
+  droneActive: boolean;
+  pianoActive: boolean;
+  volumes: Partial<Record<MixerChannelId, number>>;
+  seed?: number;
+}
+
+export class DeepLinkError extends Error {}
+
+const MAX_GAIN_PERCENT = 150;
+
+export const encodeMixLink = (link: MixLink): string => {
+  const channels: MixerChannelId[] = link.sounds.filter(id => !isUserLayerId(id));
+  if (link.droneActive) channels.push('DRONE');
+  if (link.pianoActive) channels.push('PIANO');
+  const layers = channels.map(id => {
+    const gain = link.volumes[id];
+    return gain === undefined ? id.toLowerCase() : `${id.toLowerCase()}:${Math.round(gain * 100)}`;
+  });
+  const params = [`f=${roundFrequency(link.frequency)}`];
+  if (layers.length > 0) params.push(`l=${layers.join(',')}`);
+  if (link.seed !== undefined) params.push(`s=${link.seed}`);
+  return params.join('&');
+};
+
+export const mixLinkUrl = (link: MixLink): string =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}#${encodeMixLink(link)}`;
+
+// Returns null for an empty fragment and throws a DeepLinkError for
+// anything that isn't a usable mix
+export const parseMixLink = (hash: string): MixLink | null => {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment) return null;
+
+  const params = new URLSearchParams(fragment);
+  const rawFrequency = params.get('f');
+  const frequency = Number(rawFrequency);
+  if (!rawFrequency || !Number.isFinite(frequency) || frequency < MIN_MATCH_FREQ || frequency > MAX_MATCH_FREQ) {
+    throw new DeepLinkError(`The link's frequency must be between ${MIN_MATCH_FREQ} and ${MAX_MATCH_FREQ} Hz.`);
+  }
+
+  const link: MixLink = { frequency: roundFrequency(frequency), sounds: [], droneActive: false, pianoActive: false, volumes: {} };
+
+  const rawSeed = params.get('s');
+  if (rawSeed !== null) {
+    const seed = Number(rawSeed);
+    if (!rawSeed || !Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+      throw new DeepLinkError(`The link's seed must be a whole number between 0 and ${MAX_SEED}.`);
+    }
+    link.seed = seed;
+  }
+
+  const layers = params.get('l');
+  if (!layers) return link;
+
+  layers.split(',').forEach(entry => {
+    const [name, level, ...rest] = entry.split(':');
+    const id = name.toUpperCase() as MixerChannelId;
+    if (!MIXER_CHANNELS.includes(id) || rest.length > 0) {
+      throw new DeepLinkError(`The link names an unknown layer "${entry}".`);
+    }
+    if (level !== undefined) {
+      const percent = Number(level);
+      if (level === '' || !Number.isFinite(percent) || percent < 0 || percent > MAX_GAIN_PERCENT) {
+        throw new DeepLinkError(`The level for "${name}" must be between 0 and ${MAX_GAIN_PERCENT}.`);
+      }
+      link.volumes[id] = percent / 100;
+    }
+    if (id === 'DRONE') link.droneActive = true;
+    else if (id === 'PIANO') link.pianoActive = true;
+    else if (!link.sounds.includes(id)) link.sounds.push(id);
+  });
+  return link;
+};
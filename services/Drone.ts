@@ -0,0 +1,323 @@
+import { DroneSettings, DroneTimbre, DroneVoicing } from '../types';
+
+// Sustained harmony drone. A chord (the voicing) is built on a root, each
+// chord tone played by the chosen timbre, with a sine an octave below the
+// root under the cello and organ. The root is G2, or the matched frequency
+// divided down by octaves into the octave from C2, so the drone shares the
+// tinnitus's pitch class. A new root glides; a new voicing or timbre
+// crossfades to a fresh chord. Fades in over a few seconds.
+
+export const DRONE_VOICINGS: Record<DroneVoicing, { label: string; intervals: number[] }> = {
+  FIFTH: { label: 'Fifth', intervals: [0, 7] },
+  OPEN_FIFTH: { label: 'Open Fifth', intervals: [0, 7, 12] },
+  MINOR_TRIAD: { label: 'Minor Triad', intervals: [0, 3, 7] },
+};
+
+export const DEFAULT_DRONE_SETTINGS: DroneSettings = {
+  followMatch: false,
+  voicing: 'FIFTH',
+  timbre: 'CELLO',
+  level: 0.5,
+  brightness: 0.4,
+};
+
+const FIXED_ROOT = 98.0; // G2
+const ROOT_LOW = 65.41; // C2
+
+export const droneRoot = (settings: DroneSettings, frequency: number): number => {
+  if (!settings.followMatch || !(frequency > 0)) return FIXED_ROOT;
+  let root = frequency;
+  while (root >= ROOT_LOW * 2) root /= 2;
+  while (root < ROOT_LOW) root *= 2;
+  return root;
+};
+
+const DRONE_GAIN = 0.12; // At full level
+const FADE_IN_SECONDS = 4;
+const FADE_OUT_SECONDS = 1.5;
+const GLIDE_SECONDS = 3;
+const CROSSFADE_SECONDS = 2.5;
+const CONTROL_SECONDS = 0.2; // Level and brightness changes
+
+// Moves a parameter to `value` from wherever it is now
+const rampTo = (param: AudioParam, value: number, at: number, seconds: number, exponential = false) => {
+  param.cancelScheduledValues(at);
+  param.setValueAtTime(param.value, at);
+  if (exponential) param.exponentialRampToValueAtTime(value, at + seconds);
+  else param.linearRampToValueAtTime(value, at + seconds);
+};
+
+// --- Timbres ---
+
+// One chord tone. Frequencies glide; brightness moves its filters.
+interface ToneVoice {
+  output: AudioNode;
+  setFrequency: (frequency: number, at: number, seconds: number) => void;
+  setBrightness: (brightness: number, at: number) => void;
+  start: (at: number) => void;
+  stop: (at: number, onEnded?: () => void) => void;
+  disconnect: () => void;
+}
+
+type ToneBuilder = (ctx: BaseAudioContext, frequency: number, brightness: number, index: number) => ToneVoice;
+
+// Shared plumbing: oscillators whose frequency follows the tone, and the
+// nodes to release afterwards
+const toneVoice = (
+  output: AudioNode,
+  pitched: { osc: OscillatorNode; ratio: number }[],
+  others: AudioScheduledSourceNode[],
+  nodes: AudioNode[],
+  setBrightness: ToneVoice['setBrightness']
+): ToneVoice => {
+  const sources = [...pitched.map(p => p.osc), ...others];
+  return {
+    output,
+    setFrequency: (frequency, at, seconds) => pitched.forEach(({ osc, ratio }) => {
+      if (seconds > 0) rampTo(osc.frequency, frequency * ratio, at, seconds, true);
+      else osc.frequency.setValueAtTime(frequency * ratio, at);
+    }),
+    setBrightness,
+    start: at => sources.forEach(src => src.start(at)),
+    stop: (at, onEnded) => {
+      sources.forEach(src => src.stop(at));
+      if (onEnded) sources[0].onended = onEnded;
+    },
+    disconnect: () => [...sources, ...nodes].forEach(node => node.disconnect()),
+  };
+};
+
+// Two detuned saws through a lowpass that slowly breathes
+const celloTone: ToneBuilder = (ctx, frequency, brightness, index) => {
+  const output = ctx.createGain();
+  const cutoff = (b: number) => 200 * Math.pow(2, b * 2.5);
+  const filters: BiquadFilterNode[] = [];
+  const pitched = [0, 10].map(detune => {
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.value = frequency;
+    osc.detune.value = detune;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = cutoff(brightness);
+    filter.Q.value = 1;
+    osc.connect(filter);
+    filter.connect(output);
+    filters.push(filter);
+    return { osc, ratio: 1 };
+  });
+
+  // Tones breathe at slightly different rates, so the chord keeps moving
+  const lfo = ctx.createOscillator();
+  lfo.frequency.value = 0.1 + index * 0.017;
+  const lfoGain = ctx.createGain();
+  lfoGain.gain.value = 100;
+  lfo.connect(lfoGain);
+  filters.forEach(filter => lfoGain.connect(filter.frequency));
+
+  return toneVoice(output, pitched, [lfo], [output, lfoGain, ...filters], (b, at) =>
+    filters.forEach(filter => rampTo(filter.frequency, cutoff(b), at, CONTROL_SECONDS)));
+};
+
+// Drawbars: the foundation (unison and octave) always, the upper
+// harmonics as brightness rises
+const organTone: ToneBuilder = (ctx, frequency, brightness) => {
+  const output = ctx.createGain();
+  const drawbars = (harmonics: [number, number][]) => {
+    const real = new Float32Array(9);
+    const imag = new Float32Array(9);
+    harmonics.forEach(([n, amplitude]) => { imag[n] = amplitude; });
+    const osc = ctx.createOscillator();
+    osc.setPeriodicWave(ctx.createPeriodicWave(real, imag));
+    osc.frequency.value = frequency;
+    return osc;
+  };
+  const foundation = drawbars([[1, 1], [2, 0.6]]);
+  const upper = drawbars([[3, 0.45], [4, 0.35], [6, 0.25], [8, 0.2]]);
+  const upperGain = ctx.createGain();
+  upperGain.gain.value = brightness;
+  foundation.connect(output);
+  upper.connect(upperGain);
+  upperGain.connect(output);
+  output.gain.value = 0.5;
+
+  return toneVoice(output, [{ osc: foundation, ratio: 1 }, { osc: upper, ratio: 1 }], [], [output, upperGain], (b, at) =>
+    rampTo(upperGain.gain, b, at, CONTROL_SECONDS));
+};
+
+// Vowel formants of a sung "ah", fixed in frequency like a real voice's
+const CHOIR_FORMANTS: [number, number][] = [[730, 1], [1090, 0.5], [2440, 0.25]];
+
+// A section of three slightly detuned saws, sung an octave above the root,
+// through the formants with a slow swell
+const choirTone: ToneBuilder = (ctx, frequency, brightness, index) => {
+  const output = ctx.createGain();
+  const section = ctx.createGain();
+  section.gain.value = 1 / 3;
+  const pitched = [-9, 0, 9].map(detune => {
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.value = frequency * 2;
+    osc.detune.value = detune;
+    osc.connect(section);
+    return { osc, ratio: 2 };
+  });
+
+  const lowpass = ctx.createBiquadFilter();
+  lowpass.type = 'lowpass';
+  const cutoff = (b: number) => 800 * Math.pow(2, b * 2.3);
+  lowpass.frequency.value = cutoff(brightness);
+  const formants = CHOIR_FORMANTS.map(([hz, gain]) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = hz;
+    filter.Q.value = 6;
+    const level = ctx.createGain();
+    level.gain.value = gain * 3;
+    section.connect(filter);
+    filter.connect(level);
+    level.connect(lowpass);
+    return [filter, level];
+  }).flat();
+
+  const swell = ctx.createGain();
+  swell.gain.value = 0.8;
+  lowpass.connect(swell);
+  swell.connect(output);
+  const lfo = ctx.createOscillator();
+  lfo.frequency.value = 0.07 + index * 0.011;
+  const lfoGain = ctx.createGain();
+  lfoGain.gain.value = 0.2;
+  lfo.connect(lfoGain);
+  lfoGain.connect(swell.gain);
+
+  return toneVoice(output, pitched, [lfo], [output, section, lowpass, swell, lfoGain, ...formants], (b, at) =>
+    rampTo(lowpass.frequency, cutoff(b), at, CONTROL_SECONDS));
+};
+
+// Sine an octave under the root
+const subTone: ToneBuilder = (ctx, frequency) => {
+  const output = ctx.createGain();
+  const osc = ctx.createOscillator();
+  osc.type = 'sine';
+  osc.frequency.value = frequency / 2;
+  osc.connect(output);
+  return toneVoice(output, [{ osc, ratio: 0.5 }], [], [output], () => {});
+};
+
+export const DRONE_TIMBRES: Record<DroneTimbre, { label: string; build: ToneBuilder; sub: number }> = {
+  CELLO: { label: 'Cello', build: celloTone, sub: 0.4 },
+  ORGAN: { label: 'Organ', build: organTone, sub: 0.3 },
+  CHOIR: { label: 'Choir Pad', build: choirTone, sub: 0 },
+};
+
+// --- Chord ---
+
+interface Chord {
+  setRoot: (root: number, at: number, seconds: number) => void;
+  setBrightness: (brightness: number, at: number) => void;
+  fade: (level: number, at: number, seconds: number) => void;
+  stop: (at: number, onEnded?: () => void) => void; // Releases every node once stopped
+}
+
+const startChord = (ctx: BaseAudioContext, destination: AudioNode, settings: DroneSettings, root: number, at: number, fadeSeconds: number): Chord => {
+  const { build, sub } = DRONE_TIMBRES[settings.timbre];
+  const intervals = DRONE_VOICINGS[settings.voicing].intervals;
+  const gain = ctx.createGain();
+  gain.connect(destination);
+
+  // Equal loudness whatever the number of chord tones
+  const tones = intervals.map((semitones, i) => {
+    const ratio = Math.pow(2, semitones / 12);
+    const voice = build(ctx, root * ratio, settings.brightness, i);
+    const level = ctx.createGain();
+    level.gain.value = 1 / Math.sqrt(intervals.length);
+    voice.output.connect(level);
+    level.connect(gain);
+    return { voice, ratio, level };
+  });
+  if (sub > 0) {
+    const voice = subTone(ctx, root, settings.brightness, 0);
+    const level = ctx.createGain();
+    level.gain.value = sub;
+    voice.output.connect(level);
+    level.connect(gain);
+    tones.push({ voice, ratio: 1, level });
+  }
+
+  gain.gain.setValueAtTime(fadeSeconds > 0 ? 0 : 1, at);
+  if (fadeSeconds > 0) gain.gain.linearRampToValueAtTime(1, at + fadeSeconds);
+  tones.forEach(({ voice }) => voice.start(at));
+
+  return {
+    setRoot: (next, t, seconds) => tones.forEach(({ voice, ratio }) => voice.setFrequency(next * ratio, t, seconds)),
+    setBrightness: (b, t) => tones.forEach(({ voice }) => voice.setBrightness(b, t)),
+    fade: (level, t, seconds) => rampTo(gain.gain, level, t, seconds),
+    stop: (t, onEnded) => {
+      tones.forEach(({ voice }, i) => voice.stop(t, i > 0 ? undefined : () => {
+        tones.forEach(tone => {
+          tone.voice.disconnect();
+          tone.level.disconnect();
+        });
+        gain.disconnect();
+        onEnded?.();
+      }));
+    },
+  };
+};
+
+// --- Voice ---
+
+export interface DroneOptions {
+  settings: DroneSettings;
+  frequency: number; // The matched frequency, for a root that follows it
+}
+
+export interface DroneVoice {
+  update: (options: Partial<DroneOptions>) => void;
+  stop: () => void; // Fades out, then releases every node
+}
+
+export const startDrone = (ctx: BaseAudioContext, destination: AudioNode, initial: DroneOptions, when = ctx.currentTime): DroneVoice => {
+  let options = initial;
+  let root = droneRoot(options.settings, options.frequency);
+
+  const master = ctx.createGain();
+  master.gain.setValueAtTime(0, when);
+  master.gain.linearRampToValueAtTime(DRONE_GAIN * options.settings.level, when + FADE_IN_SECONDS);
+  master.connect(destination);
+
+  let chord = startChord(ctx, master, options.settings, root, when, 0);
+
+  const update = (patch: Partial<DroneOptions>) => {
+    const previous = options.settings;
+    options = { ...options, ...patch };
+    const { settings } = options;
+    const now = ctx.currentTime;
+
+    if (settings.timbre !== previous.timbre || settings.voicing !== previous.voicing) {
+      const old = chord;
+      old.fade(0, now, CROSSFADE_SECONDS);
+      old.stop(now + CROSSFADE_SECONDS + 0.1);
+      root = droneRoot(settings, options.frequency);
+      chord = startChord(ctx, master, settings, root, now, CROSSFADE_SECONDS);
+      return;
+    }
+
+    const nextRoot = droneRoot(settings, options.frequency);
+    if (nextRoot !== root) {
+      root = nextRoot;
+      chord.setRoot(root, now, GLIDE_SECONDS);
+    }
+    if (settings.brightness !== previous.brightness) chord.setBrightness(settings.brightness, now);
+    if (settings.level !== previous.level) rampTo(master.gain, DRONE_GAIN * settings.level, now, CONTROL_SECONDS);
+  };
+
+  const stop = () => {
+    const now = ctx.currentTime;
+    rampTo(master.gain, 0, now, FADE_OUT_SECONDS);
+    chord.stop(now + FADE_OUT_SECONDS + 0.1, () => master.disconnect());
+  };
+
+  return { update, stop };
+};
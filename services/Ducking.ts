@@ -0,0 +1,77 @@
+import { DuckingRule, MixerChannelId } from '../types';
+
+// Rain sits under everything else: this replaces the old hard-coded
+// "drop rain to 0.05 whenever anything else plays" behaviour.
+export const DEFAULT_DUCKING_RULES: DuckingRule[] = [
+  { id: 'rain-under-others', source: 'ANY', target: 'RAIN', amount: 9.5, attack: 1.5, release: 1.5 },
+];
+
+export const createDuckingRule = (): DuckingRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`,
+  source: 'ANY',
+  target: 'WIND',
+  amount: 6,
+  attack: 1.0,
+  release: 2.0,
+});
+
+// Attenuation (dB) and ramp time applied to a ducked channel
+export interface DuckState {
+  amount: number;
+  attack: number;
+  release: number;
+}
+
+// 'ANY' only listens to the garden layers. The drone and piano are a bed
+// under the whole mix, so switching them on never ducks anything unless a
+// rule names them as its source.
+const isGardenLayer = (id: MixerChannelId) => id !== 'DRONE' && id !== 'PIANO';
+
+// Resolve the matrix against the set of currently active channels.
+// Rules stack: two active sources ducking the same target add their dB.
+// The slowest attack/release among the triggered rules wins.
+export const resolveDucking = (
+  rules: DuckingRule[],
+  active: Set<MixerChannelId>
+): Map<MixerChannelId, DuckState> => {
+  const result = new Map<MixerChannelId, DuckState>();
+
+  rules.forEach(rule => {
+    const triggered = rule.source === 'ANY'
+      ? Array.from(active).some(id => id !== rule.target && isGardenLayer(id))
+      : rule.source !== rule.target && active.has(rule.source);
+    if (!triggered) return;
+
+    const prev = result.get(rule.target);
+    result.set(rule.target, {
+      amount: (prev?.amount ?? 0) + rule.amount,
+      attack: Math.max(prev?.attack ?? 0, rule.attack),
+      release: Math.max(prev?.release ?? 0, rule.release),
+    });
+  });
+
+  return result;
+};
+
+// --- Persistence ---
+const STORAGE_KEY = 'resonance-garden.ducking';
+
+export const loadDuckingRules = (): DuckingRule[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_DUCKING_RULES;
+    const stored = JSON.parse(raw);
+    if (Array.isArray(stored)) return stored as DuckingRule[];
+  } catch (e) {
+    console.warn('[Ducking] Could not read saved rules, using defaults.', e);
+  }
+  return DEFAULT_DUCKING_RULES;
+};
+
+export const saveDuckingRules = (rules: DuckingRule[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (e) {
+    console.warn('[Ducking] Could not save rules.', e);
+  }
+};
@@ -0,0 +1,94 @@
+import { Ear, EarMatches } from '../types';
+import { NotchStage } from './NotchStage';
+
+export const EARS: Ear[] = ['left', 'right'];
+
+// Level of an ear without tinnitus when the other ear rings, so the
+// masking concentrates on the affected side (-6 dB)
+const UNAFFECTED_EAR_GAIN = 0.5;
+
+export const createDefaultEarMatches = (): EarMatches => ({
+  left: { frequency: 4500, affected: true, confidence: null },
+  right: { frequency: 4500, affected: true, confidence: null },
+});
+
+// Single frequency used where a layer can't be processed per ear
+// (playbackRate, visuals): the geometric mean of the affected ears.
+export const combineEarFrequencies = (ears: EarMatches, fallback = 4500): number => {
+  const affected = EARS.filter(ear => ears[ear].affected).map(ear => ears[ear].frequency);
+  if (affected.length === 0) return fallback;
+  const logMean = affected.reduce((sum, f) => sum + Math.log(f), 0) / affected.length;
+  return Math.round(Math.exp(logMean));
+};
+
+// Splits the layer bus into left and right chains. Each ear gets its own
+// notch centred on that ear's matched frequency, then the two are merged.
+export class EarStage {
+  public readonly input: GainNode;
+  public readonly output: GainNode;
+
+  private ctx: BaseAudioContext;
+  private notches: Record<Ear, NotchStage>;
+  private gains: Record<Ear, GainNode>;
+  private ears: EarMatches;
+  private notchEnabled = false;
+
+  constructor(ctx: BaseAudioContext, ears: EarMatches, width: number) {
+    this.ctx = ctx;
+    this.ears = ears;
+
+    // Force a stereo signal so mono sources reach both ears before splitting
+    this.input = ctx.createGain();
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+    this.output = ctx.createGain();
+
+    const splitter = ctx.createChannelSplitter(2);
+    const merger = ctx.createChannelMerger(2);
+    this.input.connect(splitter);
+    merger.connect(this.output);
+
+    this.notches = {
+      left: new NotchStage(ctx, ears.left.frequency, width),
+      right: new NotchStage(ctx, ears.right.frequency, width),
+    };
+    this.gains = { left: ctx.createGain(), right: ctx.createGain() };
+
+    EARS.forEach((ear, channel) => {
+      splitter.connect(this.notches[ear].input, channel);
+      this.notches[ear].output.connect(this.gains[ear]);
+      this.gains[ear].connect(merger, 0, channel);
+    });
+
+    this.apply();
+  }
+
+  public setEars(ears: EarMatches) {
+    this.ears = ears;
+    this.apply();
+  }
+
+  public setNotchEnabled(enabled: boolean) {
+    this.notchEnabled = enabled;
+    this.apply();
+  }
+
+  public setNotchWidth(width: number) {
+    EARS.forEach(ear => this.notches[ear].setWidth(width));
+  }
+
+  private apply() {
+    const now = this.ctx.currentTime;
+    const anyAffected = EARS.some(ear => this.ears[ear].affected);
+
+    EARS.forEach(ear => {
+      const match = this.ears[ear];
+      this.notches[ear].setFrequency(match.frequency);
+      // An ear without tinnitus has nothing to notch out
+      this.notches[ear].setEnabled(this.notchEnabled && match.affected);
+      const gain = anyAffected && !match.affected ? UNAFFECTED_EAR_GAIN : 1;
+      this.gains[ear].gain.setTargetAtTime(gain, now, 0.2);
+    });
+  }
+}
@@ -0,0 +1,229 @@
+import { PitchPolicy, ToneCharacter } from '../types';
+import { matchedBandwidth } from './MatchingTone';
+import { qForBandwidth } from './NotchStage';
+import { EMPHASIS_GAIN_DB, EMPHASIS_WIDTH_OCTAVES, shiftRatio } from './PitchPolicy';
+import { createWhiteNoiseBuffer } from './noise';
+import { startLoopPlayer } from './LoopPlayer';
+import { Random } from './random';
+import { FallbackSynth, SoundEntry } from './SoundLibrary';
+
+// Everything a layer takes from the listener's settings
+export interface LayerOptions {
+  frequency: number; // Matched frequency the layer follows
+  pitchPolicy: PitchPolicy; // This layer's policy
+  toneCharacter: ToneCharacter;
+  random: Random; // Playback variation and fallback noise
+}
+
+// Defaults for looped entries that don't set their own
+const DEFAULT_LOOP_CROSSFADE = 2;
+const DEFAULT_RATE_DRIFT = 0.015;
+
+// Playback rate that moves a recording's centroid towards the matched frequency
+export const layerPlaybackRate = (entry: SoundEntry, options: LayerOptions): number =>
+  options.pitchPolicy === 'SHIFT' ? shiftRatio(entry.centroid, options.frequency, entry.pitchFollow) : 1;
+
+// EMPHASIS: a peaking boost on the matched frequency, at least as wide as
+// the matched sound
+const emphasisFilter = (ctx: BaseAudioContext, options: LayerOptions): BiquadFilterNode => {
+  const peak = ctx.createBiquadFilter();
+  peak.type = 'peaking';
+  peak.frequency.value = Math.min(options.frequency, ctx.sampleRate * 0.45);
+  peak.Q.value = qForBandwidth(Math.max(EMPHASIS_WIDTH_OCTAVES, matchedBandwidth(options.toneCharacter)));
+  peak.gain.value = EMPHASIS_GAIN_DB;
+  return peak;
+};
+
+// --- Fallback synths ---
+// Each builds its sound at unity level, starts it at `t` and hands back
+// its output. `source` ends when a one-shot synth has finished.
+
+interface SynthVoice {
+  output: AudioNode;
+  source: AudioScheduledSourceNode;
+  stop: (when: number) => void;
+}
+
+type SynthFactory = (ctx: BaseAudioContext, t: number, options: LayerOptions) => SynthVoice;
+
+// Looping white noise through one filter
+const filteredNoise = (ctx: BaseAudioContext, t: number, random: Random, type: BiquadFilterType, frequency: number, q = 1) => {
+  const noise = ctx.createBufferSource();
+  noise.buffer = createWhiteNoiseBuffer(ctx, 2, random);
+  noise.loop = true;
+  const filter = ctx.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = frequency;
+  filter.Q.value = q;
+  noise.connect(filter);
+  noise.start(t);
+  return { noise, filter };
+};
+
+const FALLBACK_SYNTHS: Record<FallbackSynth, SynthFactory> = {
+  // FM chirp, falling from 2 kHz
+  CHIRP: (ctx, t) => {
+    const carrier = ctx.createOscillator();
+    const modulator = ctx.createOscillator();
+    const modGain = ctx.createGain();
+    const envelope = ctx.createGain();
+
+    carrier.type = 'sine';
+    carrier.frequency.setValueAtTime(2000, t);
+    carrier.frequency.exponentialRampToValueAtTime(1200, t + 0.15);
+    modulator.type = 'sine';
+    modulator.frequency.value = 40;
+    modGain.gain.value = 500;
+
+    modulator.connect(modGain);
+    modGain.connect(carrier.frequency);
+    carrier.connect(envelope);
+
+    envelope.gain.setValueAtTime(0, t);
+    envelope.gain.linearRampToValueAtTime(1, t + 0.05);
+    envelope.gain.exponentialRampToValueAtTime(0.01, t + 0.4);
+
+    carrier.start(t);
+    modulator.start(t);
+    carrier.stop(t + 0.5);
+    modulator.stop(t + 0.5);
+    return { output: envelope, source: carrier, stop: when => { carrier.stop(when); modulator.stop(when); } };
+  },
+
+  // Highpassed noise with a rustling filter wobble
+  RUSTLE: (ctx, t, { random }) => {
+    const { noise, filter } = filteredNoise(ctx, t, random, 'highpass', 1200, 1.0);
+    const lfo = ctx.createOscillator();
+    lfo.frequency.value = 1.5;
+    const lfoGain = ctx.createGain();
+    lfoGain.gain.value = 300;
+    lfo.connect(lfoGain);
+    lfoGain.connect(filter.frequency);
+    lfo.start(t);
+    return { output: filter, source: noise, stop: when => { noise.stop(when); lfo.stop(when); } };
+  },
+
+  // Low rumble
+  GUST: (ctx, t, { random }) => {
+    const { noise, filter } = filteredNoise(ctx, t, random, 'lowpass', 300, 0.5);
+    return { output: filter, source: noise, stop: when => noise.stop(when) };
+  },
+
+  // Brown noise approximation
+  SURF: (ctx, t, { random }) => {
+    const { noise, filter } = filteredNoise(ctx, t, random, 'lowpass', 150);
+    return { output: filter, source: noise, stop: when => noise.stop(when) };
+  },
+
+  // Bright hiss
+  SHOWER: (ctx, t, { random }) => {
+    const { noise, filter } = filteredNoise(ctx, t, random, 'highpass', 800);
+    return { output: filter, source: noise, stop: when => noise.stop(when) };
+  },
+
+  // Buzzing noise band on the matched frequency, at least as wide as the
+  // matched sound
+  BUZZ: (ctx, t, options) => {
+    const centre = options.pitchPolicy === 'SHIFT' && options.frequency > 0 ? options.frequency : 6000;
+    const bandwidth = Math.max(1 / 6, matchedBandwidth(options.toneCharacter));
+    const bandHz = centre * (Math.pow(2, bandwidth / 2) - Math.pow(2, -bandwidth / 2));
+
+    const { noise, filter: band } = filteredNoise(
+      ctx, t, options.random, 'bandpass', Math.min(centre, ctx.sampleRate * 0.45), qForBandwidth(bandwidth)
+    );
+
+    // Bring the narrow band back up to roughly full-band level
+    const makeup = ctx.createGain();
+    makeup.gain.value = Math.min(20, Math.sqrt((ctx.sampleRate / 2) / bandHz));
+
+    // Square-wave amplitude buzz (0..1)
+    const buzz = ctx.createGain();
+    buzz.gain.value = 0.5;
+    const modulator = ctx.createOscillator();
+    const modGain = ctx.createGain();
+    modulator.type = 'square';
+    modulator.frequency.value = 30;
+    modGain.gain.value = 0.5;
+    modulator.connect(modGain);
+    modGain.connect(buzz.gain);
+
+    band.connect(makeup);
+    makeup.connect(buzz);
+    modulator.start(t);
+    return { output: buzz, source: noise, stop: when => { noise.stop(when); modulator.stop(when); } };
+  },
+};
+
+// Builds one garden layer from its recording, or its fallback synth when
+// the recording is missing, and starts it at `when` into `bus`. Works on
+// live and offline contexts alike. Returns a function that fades the
+// layer out; `onEnded` fires when a one-shot sound finishes by itself.
+export const startLayerSound = (
+  ctx: BaseAudioContext,
+  entry: SoundEntry,
+  buffer: AudioBuffer | null,
+  bus: AudioNode,
+  options: LayerOptions,
+  onEnded?: () => void,
+  when = ctx.currentTime
+): (() => void) => {
+  const t = when;
+  const gain = ctx.createGain();
+  if (options.pitchPolicy === 'EMPHASIS' && options.frequency > 0) {
+    const peak = emphasisFilter(ctx, options);
+    gain.connect(peak);
+    peak.connect(bus);
+  } else {
+    gain.connect(bus);
+  }
+
+  const fadeIn = (level: number, seconds: number) => {
+    gain.gain.setValueAtTime(seconds > 0 ? 0 : level, t);
+    if (seconds > 0) gain.gain.linearRampToValueAtTime(level, t + seconds);
+  };
+  const fadeOut = (seconds: number, stopAt: (when: number) => void) => () => {
+    const now = ctx.currentTime;
+    gain.gain.cancelScheduledValues(now);
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    gain.gain.linearRampToValueAtTime(0, now + seconds);
+    try { stopAt(now + seconds + 0.1); } catch (e) {}
+  };
+
+  if (buffer) {
+    const jitter = entry.rateJitter > 0 ? 1 + (options.random() * 2 - 1) * entry.rateJitter : 1;
+    const rate = layerPlaybackRate(entry, options) * jitter;
+    fadeIn(entry.gain, entry.fadeIn);
+
+    // Loops crossfade between overlapping passes instead of wrapping the buffer
+    if (entry.loop) {
+      const player = startLoopPlayer(ctx, buffer, gain, {
+        loopStart: entry.loopStart ?? 0,
+        loopEnd: entry.loopEnd ?? buffer.duration,
+        crossfade: entry.loopCrossfade ?? DEFAULT_LOOP_CROSSFADE,
+        rate,
+        rateDrift: entry.rateDrift ?? DEFAULT_RATE_DRIFT,
+        random: options.random,
+      }, t);
+      return fadeOut(entry.release, player.stop);
+    }
+
+    const src = ctx.createBufferSource();
+    src.buffer = buffer;
+    src.playbackRate.value = rate;
+    src.connect(gain);
+    const duration = buffer.duration / rate;
+    gain.gain.setValueAtTime(entry.gain, t + duration - entry.fadeIn);
+    gain.gain.linearRampToValueAtTime(0, t + duration);
+    src.onended = () => onEnded?.();
+    src.start(t);
+    return fadeOut(entry.release, at => src.stop(at));
+  }
+
+  const { fallback } = entry;
+  if (!fallback) return () => gain.disconnect();
+  const voice = FALLBACK_SYNTHS[fallback.synth](ctx, t, options);
+  voice.output.connect(gain);
+  fadeIn(fallback.gain, fallback.fadeIn);
+  if (!entry.loop) voice.source.onended = () => onEnded?.();
+  return fadeOut(fallback.release, voice.stop);
+};
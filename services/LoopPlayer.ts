@@ -0,0 +1,110 @@
+import { Random } from './random';
+
+// Seamless looping for sampled layers. A single looping buffer source jumps
+// straight from the loop end back to its start, and any mismatch there
+// clicks on every pass. This player instead chains overlapping one-shot
+// sources with equal-power crossfades. Each pass plays a window of the
+// loop region from a random offset at a slightly varied rate, so a long
+// session never settles into an audible repeat period.
+
+export interface LoopSettings {
+  loopStart: number; // Seconds into the buffer
+  loopEnd: number;
+  crossfade: number; // Seconds of overlap between passes
+  rate: number; // Playback rate of the layer
+  rateDrift: number; // Each pass varies its rate by up to this fraction, e.g. 0.02
+  random: Random;
+}
+
+export interface LoopPlayer {
+  stop: (when: number) => void;
+}
+
+// Live contexts schedule a few seconds ahead on a timer; offline ones
+// schedule the whole render up front
+const LOOKAHEAD_SECONDS = 4;
+const SCHEDULE_INTERVAL_MS = 1000;
+// Each pass covers between this fraction of the loop region and all of it
+const MIN_WINDOW = 0.5;
+const CURVE_POINTS = 64;
+
+// Equal-power fade curves: the two overlapping passes always sum to the
+// same energy
+const fadeInCurve = new Float32Array(CURVE_POINTS).map((_, i) => Math.sin((i / (CURVE_POINTS - 1)) * Math.PI / 2));
+const fadeOutCurve = new Float32Array(CURVE_POINTS).map((_, i) => Math.cos((i / (CURVE_POINTS - 1)) * Math.PI / 2));
+
+export const startLoopPlayer = (
+  ctx: BaseAudioContext,
+  buffer: AudioBuffer,
+  destination: AudioNode,
+  settings: LoopSettings,
+  when = ctx.currentTime
+): LoopPlayer => {
+  const loopStart = Math.max(0, Math.min(settings.loopStart, buffer.duration));
+  const loopEnd = Math.max(loopStart, Math.min(settings.loopEnd, buffer.duration));
+  const region = loopEnd - loopStart;
+  // Short regions get a shorter crossfade, so even the shortest pass
+  // still has a body between its fades
+  const crossfade = Math.min(settings.crossfade, region * MIN_WINDOW / 3);
+  const { random } = settings;
+
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStart = when;
+  let first = true;
+  let stopped = false;
+
+  // One pass: fades in over the crossfade (except the very first, which the
+  // layer's own fade-in covers) and fades out into the next pass
+  const schedulePass = () => {
+    const span = region * (MIN_WINDOW + random() * (1 - MIN_WINDOW));
+    const offset = loopStart + random() * (region - span);
+    const rate = settings.rate * (1 + (random() * 2 - 1) * settings.rateDrift);
+    const duration = span / rate;
+    const fade = crossfade / rate;
+
+    const src = ctx.createBufferSource();
+    src.buffer = buffer;
+    src.playbackRate.value = rate;
+    const gain = ctx.createGain();
+    src.connect(gain);
+    gain.connect(destination);
+
+    const t = nextStart;
+    if (first) gain.gain.setValueAtTime(1, t);
+    else gain.gain.setValueCurveAtTime(fadeInCurve, t, fade);
+    gain.gain.setValueCurveAtTime(fadeOutCurve, t + duration - fade, fade);
+
+    src.start(t, offset, span);
+    src.stop(t + duration);
+    src.onended = () => {
+      sources.delete(src);
+      gain.disconnect();
+    };
+    sources.add(src);
+
+    first = false;
+    nextStart = t + duration - fade;
+  };
+
+  const scheduleUntil = (horizon: number) => {
+    while (!stopped && region > 0 && nextStart < horizon) schedulePass();
+  };
+
+  let timer: number | null = null;
+  if (ctx instanceof OfflineAudioContext) {
+    scheduleUntil(ctx.length / ctx.sampleRate);
+  } else {
+    scheduleUntil(ctx.currentTime + LOOKAHEAD_SECONDS);
+    timer = window.setInterval(() => scheduleUntil(ctx.currentTime + LOOKAHEAD_SECONDS), SCHEDULE_INTERVAL_MS);
+  }
+
+  return {
+    stop: (at: number) => {
+      stopped = true;
+      if (timer !== null) window.clearInterval(timer);
+      sources.forEach(src => {
+        try { src.stop(at); } catch (e) {}
+      });
+    },
+  };
+};
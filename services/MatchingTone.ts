@@ -0,0 +1,143 @@
+import { ToneCharacter, ToneType } from '../types';
+import { qForBandwidth } from './NotchStage';
+import { SINE_RMS, bufferRms, createPinkNoiseBuffer, createWhiteNoiseBuffer } from './noise';
+
+export const DEFAULT_TONE_CHARACTER: ToneCharacter = { type: 'PURE', bandwidth: 1 / 3 };
+
+export const TONE_TYPES: ToneType[] = ['PURE', 'NARROWBAND', 'WHITE', 'PINK', 'CLUSTER'];
+
+export const TONE_TYPE_LABELS: Record<ToneType, string> = {
+  PURE: 'Pure Tone',
+  NARROWBAND: 'Narrow Noise',
+  WHITE: 'White Hiss',
+  PINK: 'Pink Hiss',
+  CLUSTER: 'Tone Cluster',
+};
+
+// Types whose spread around the frequency is set by `bandwidth`
+export const hasBandwidth = (type: ToneType) => type === 'NARROWBAND' || type === 'CLUSTER';
+
+// Width (octaves) of the band the matched sound occupies.
+// Hiss is treated as an octave above its lower edge.
+export const matchedBandwidth = (character: ToneCharacter): number => {
+  switch (character.type) {
+    case 'PURE': return 0;
+    case 'WHITE':
+    case 'PINK': return 1;
+    default: return character.bandwidth;
+  }
+};
+
+const CLUSTER_SIZE = 4;
+const MAX_NOISE_COMPENSATION = 40;
+
+export interface MatchingSource {
+  output: GainNode;
+  setFrequency: (frequency: number, glide?: number) => void;
+  start: (when: number) => void;
+  stop: (when: number) => void;
+}
+
+// Builds a source for the selected sound character. Every character is
+// compensated to roughly the RMS of a sine at the same gain, so switching
+// character doesn't jump in loudness after a loudness match.
+export const createMatchingSource = (
+  ctx: BaseAudioContext,
+  character: ToneCharacter,
+  frequency: number
+): MatchingSource => {
+  const output = ctx.createGain();
+  const nyquist = ctx.sampleRate / 2;
+  const setParam = (param: AudioParam, value: number, glide: number) => {
+    if (glide > 0) param.setTargetAtTime(value, ctx.currentTime, glide);
+    else param.setValueAtTime(value, ctx.currentTime);
+  };
+
+  if (character.type === 'PURE' || character.type === 'CLUSTER') {
+    const count = character.type === 'PURE' ? 1 : CLUSTER_SIZE;
+    const spread = character.type === 'PURE' ? 0 : character.bandwidth;
+    const oscs: OscillatorNode[] = [];
+    const offsetFor = (i: number) => (count === 1 ? 0 : spread * (i / (count - 1) - 0.5));
+
+    for (let i = 0; i < count; i++) {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = 'sine';
+      osc.frequency.value = frequency * Math.pow(2, offsetFor(i));
+      gain.gain.value = 1 / Math.sqrt(count);
+      osc.connect(gain);
+      gain.connect(output);
+      oscs.push(osc);
+    }
+
+    return {
+      output,
+      setFrequency: (f, glide = 0.1) => oscs.forEach((osc, i) => setParam(osc.frequency, f * Math.pow(2, offsetFor(i)), glide)),
+      start: when => oscs.forEach(osc => osc.start(when)),
+      stop: when => oscs.forEach(osc => osc.stop(when)),
+    };
+  }
+
+  // Noise characters
+  const buffer = character.type === 'PINK' ? createPinkNoiseBuffer(ctx) : createWhiteNoiseBuffer(ctx);
+  const src = ctx.createBufferSource();
+  src.buffer = buffer;
+  src.loop = true;
+  const rms = bufferRms(buffer);
+
+  const isBand = character.type === 'NARROWBAND';
+  const filters = [ctx.createBiquadFilter(), ctx.createBiquadFilter()];
+  filters.forEach(filter => {
+    filter.type = isBand ? 'bandpass' : 'highpass';
+    filter.Q.value = isBand ? qForBandwidth(character.bandwidth) : Math.SQRT1_2;
+  });
+  src.connect(filters[0]);
+  filters[0].connect(filters[1]);
+  filters[1].connect(output);
+
+  // Share of the noise energy that survives the filters
+  const passFraction = (f: number) => {
+    if (isBand) {
+      // Two cascaded bandpasses narrow the -3 dB band to roughly 0.64x
+      const bwHz = f * (Math.pow(2, character.bandwidth / 2) - Math.pow(2, -character.bandwidth / 2)) * 0.64;
+      return Math.min(1, bwHz / nyquist);
+    }
+    if (character.type === 'PINK') {
+      return Math.max(0.01, Math.log(nyquist / f) / Math.log(nyquist / 20));
+    }
+    return Math.max(0.01, (nyquist - f) / nyquist);
+  };
+
+  const setFrequency = (f: number, glide = 0.1) => {
+    const clamped = Math.min(nyquist * 0.9, f);
+    filters.forEach(filter => setParam(filter.frequency, clamped, glide));
+    const compensation = Math.min(MAX_NOISE_COMPENSATION, SINE_RMS / (rms * Math.sqrt(passFraction(clamped))));
+    setParam(output.gain, compensation, glide);
+  };
+  setFrequency(frequency, 0);
+
+  return {
+    output,
+    setFrequency,
+    start: when => src.start(when),
+    stop: when => src.stop(when),
+  };
+};
+
+// Stored with the profile now; this reads the character saved by
+// earlier versions to seed the first profile.
+const STORAGE_KEY = 'resonance-garden.tone';
+
+export const loadToneCharacter = (): ToneCharacter => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_TONE_CHARACTER;
+    const stored = JSON.parse(raw);
+    if (TONE_TYPES.includes(stored?.type) && typeof stored.bandwidth === 'number') {
+      return stored as ToneCharacter;
+    }
+  } catch (e) {
+    console.warn('[MatchingTone] Could not read saved character, using default.', e);
+  }
+  return DEFAULT_TONE_CHARACTER;
+};
@@ -0,0 +1,281 @@
+import { ChannelSettings, DuckingRule, MixerChannelId, MixerSettings, UserLayer, UserLayerId, Vec3 } from '../types';
+import { DEFAULT_DUCKING_RULES, DuckState, resolveDucking } from './Ducking';
+import { isUserLayerId } from './UserLayers';
+
+export const MIXER_CHANNELS: MixerChannelId[] = [
+  'BIRD', 'WIND', 'LEAVES', 'WATER', 'RAIN', 'INSECT', 'DRONE', 'PIANO'
+];
+
+export const CHANNEL_LABELS: Record<Exclude<MixerChannelId, UserLayerId>, string> = {
+  BIRD: 'Birds',
+  WIND: 'Wind',
+  LEAVES: 'Leaves',
+  WATER: 'Tide',
+  RAIN: 'Rain',
+  INSECT: 'Cicada',
+  DRONE: 'Drone',
+  PIANO: 'Piano',
+};
+
+const DEFAULT_CHANNEL: ChannelSettings = { gain: 1, muted: false, solo: false, pan: 0, send: 0.2 };
+
+// How much of each layer reaches the garden's reverb by default: distant
+// birds and the harmony voices sit further back than the weather
+const DEFAULT_SENDS: Partial<Record<MixerChannelId, number>> = {
+  BIRD: 0.35,
+  WIND: 0.1,
+  RAIN: 0.15,
+  DRONE: 0.3,
+  PIANO: 0.25,
+};
+
+const defaultChannel = (id: MixerChannelId): ChannelSettings =>
+  ({ ...DEFAULT_CHANNEL, send: DEFAULT_SENDS[id] ?? DEFAULT_CHANNEL.send });
+
+// Imported layers sit between the built-in ones and the harmony voices
+export const mixerChannels = (userLayers: UserLayer[]): MixerChannelId[] => [
+  ...MIXER_CHANNELS.filter(id => id !== 'DRONE' && id !== 'PIANO'),
+  ...userLayers.map(layer => layer.id),
+  'DRONE',
+  'PIANO',
+];
+
+export const channelLabel = (id: MixerChannelId, userLayers: UserLayer[]): string =>
+  isUserLayerId(id) ? userLayers.find(layer => layer.id === id)?.name ?? 'Imported' : CHANNEL_LABELS[id];
+
+// Settings of one strip; an imported layer's strip starts at the defaults,
+// as do settings saved before a field existed
+export const channelSettings = (settings: MixerSettings, id: MixerChannelId): ChannelSettings =>
+  ({ ...defaultChannel(id), ...settings[id] });
+
+export const createDefaultMixerSettings = (): MixerSettings => {
+  const settings = {} as MixerSettings;
+  MIXER_CHANNELS.forEach(id => { settings[id] = defaultChannel(id); });
+  return settings;
+};
+
+// --- Persistence ---
+// Levels are stored with the profile now. This reads the ones saved by
+// earlier versions so the first profile keeps them.
+const STORAGE_KEY = 'resonance-garden.mixer';
+
+export const loadMixerSettings = (): MixerSettings => {
+  const settings = createDefaultMixerSettings();
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return settings;
+    const stored = JSON.parse(raw) as Partial<MixerSettings>;
+    MIXER_CHANNELS.forEach(id => {
+      if (stored[id]) settings[id] = { ...settings[id], ...stored[id] };
+    });
+  } catch (e) {
+    console.warn('[Mixer] Could not read saved levels, using defaults.', e);
+  }
+  return settings;
+};
+
+// One persistent strip per layer:
+// input -> duck -> fader -> mute/solo gate -> [HRTF | dry] -> pan -> output (bus)
+//                                                                |-> send (reverb bus)
+//                                                                \-> meter
+class ChannelStrip {
+  public readonly input: GainNode;
+  private duck: GainNode;
+  private duckRelease: number | null = null; // release time while ducked
+  private fader: GainNode;
+  private gate: GainNode;
+  private spatial: PannerNode;
+  private spatialWet: GainNode;
+  private spatialDry: GainNode;
+  private position: Vec3 | null = null;
+  private panner: StereoPannerNode;
+  private send: GainNode;
+  private meter: AnalyserNode;
+  private meterData: Float32Array<ArrayBuffer>;
+
+  constructor(private ctx: BaseAudioContext, destination: AudioNode, sendDestination: AudioNode) {
+    this.input = ctx.createGain();
+    this.duck = ctx.createGain();
+    this.fader = ctx.createGain();
+    this.gate = ctx.createGain();
+    this.spatial = ctx.createPanner();
+    this.spatial.panningModel = 'HRTF';
+    this.spatial.distanceModel = 'inverse';
+    this.spatial.refDistance = 4;
+    this.spatial.rolloffFactor = 0.3;
+    this.spatial.maxDistance = 60;
+    this.spatialWet = ctx.createGain();
+    this.spatialDry = ctx.createGain();
+    this.spatialWet.gain.value = 0;
+    this.panner = ctx.createStereoPanner();
+    this.send = ctx.createGain();
+    this.meter = ctx.createAnalyser();
+    this.meter.fftSize = 1024;
+    this.meterData = new Float32Array(this.meter.fftSize);
+
+    this.input.connect(this.duck);
+    this.duck.connect(this.fader);
+    this.fader.connect(this.gate);
+    this.gate.connect(this.spatialDry);
+    this.gate.connect(this.spatial);
+    this.spatial.connect(this.spatialWet);
+    this.spatialDry.connect(this.panner);
+    this.spatialWet.connect(this.panner);
+    this.panner.connect(destination);
+    this.panner.connect(this.send);
+    this.send.connect(sendDestination);
+    this.panner.connect(this.meter);
+  }
+
+  public disconnect() {
+    this.panner.disconnect();
+    this.send.disconnect();
+  }
+
+  public apply(settings: ChannelSettings, audible: boolean) {
+    const now = this.ctx.currentTime;
+    this.fader.gain.setTargetAtTime(settings.gain, now, 0.05);
+    this.gate.gain.setTargetAtTime(audible ? 1 : 0, now, 0.05);
+    this.panner.pan.setTargetAtTime(settings.pan, now, 0.05);
+    this.send.gain.setTargetAtTime(settings.send, now, 0.05);
+  }
+
+  // World position of the layer's source in the garden
+  public setPosition(position: Vec3) {
+    this.position = position;
+    const now = this.ctx.currentTime;
+    this.spatial.positionX.setTargetAtTime(position[0], now, 0.05);
+    this.spatial.positionY.setTargetAtTime(position[1], now, 0.05);
+    this.spatial.positionZ.setTargetAtTime(position[2], now, 0.05);
+  }
+
+  // Crossfade between the HRTF path and the dry (centred) path.
+  // Layers without a position (drone, piano) always stay dry.
+  public setSpatial(enabled: boolean) {
+    const wet = enabled && this.position !== null;
+    const now = this.ctx.currentTime;
+    this.spatialWet.gain.setTargetAtTime(wet ? 1 : 0, now, 0.1);
+    this.spatialDry.gain.setTargetAtTime(wet ? 0 : 1, now, 0.1);
+  }
+
+  // Ramp towards the ducked level (attack) or back to unity (release).
+  // Times are "reach ~95%" durations, hence the /3 time constant.
+  public applyDuck(state: DuckState | undefined) {
+    const now = this.ctx.currentTime;
+    if (state) {
+      const target = Math.pow(10, -state.amount / 20);
+      this.duck.gain.cancelScheduledValues(now);
+      this.duck.gain.setTargetAtTime(target, now, Math.max(0.01, state.attack / 3));
+      this.duckRelease = state.release;
+    } else if (this.duckRelease !== null) {
+      this.duck.gain.cancelScheduledValues(now);
+      this.duck.gain.setTargetAtTime(1, now, Math.max(0.01, this.duckRelease / 3));
+      this.duckRelease = null;
+    }
+  }
+
+  // RMS level of the post-fader signal, 0-1
+  public getLevel(): number {
+    this.meter.getFloatTimeDomainData(this.meterData);
+    let sum = 0;
+    for (let i = 0; i < this.meterData.length; i++) {
+      sum += this.meterData[i] * this.meterData[i];
+    }
+    return Math.sqrt(sum / this.meterData.length);
+  }
+}
+
+// Mixer bus: every layer has a strip, all strips sum into `output` and,
+// at their send levels, into `send` for the reverb. Imported layers add
+// and remove their strips as they come and go.
+export class Mixer {
+  public readonly output: GainNode;
+  public readonly send: GainNode;
+  private strips = new Map<MixerChannelId, ChannelStrip>();
+  private settings: MixerSettings;
+  private duckingRules: DuckingRule[];
+  private activeChannels = new Set<MixerChannelId>();
+  private spatialEnabled = false;
+
+  constructor(
+    private ctx: BaseAudioContext,
+    settings: MixerSettings = createDefaultMixerSettings(),
+    duckingRules: DuckingRule[] = DEFAULT_DUCKING_RULES,
+    channels: MixerChannelId[] = MIXER_CHANNELS
+  ) {
+    this.output = ctx.createGain();
+    this.send = ctx.createGain();
+    this.settings = settings;
+    this.duckingRules = duckingRules;
+    channels.forEach(id => {
+      this.strips.set(id, new ChannelStrip(ctx, this.output, this.send));
+    });
+    this.applyAll();
+  }
+
+  public addChannel(id: MixerChannelId) {
+    if (this.strips.has(id)) return;
+    const strip = new ChannelStrip(this.ctx, this.output, this.send);
+    strip.setSpatial(this.spatialEnabled);
+    this.strips.set(id, strip);
+    this.applyAll();
+  }
+
+  public removeChannel(id: MixerChannelId) {
+    this.strips.get(id)?.disconnect();
+    this.strips.delete(id);
+    this.applyAll();
+  }
+
+  public input(id: MixerChannelId): GainNode {
+    return this.strips.get(id)!.input;
+  }
+
+  public setSettings(settings: MixerSettings) {
+    this.settings = settings;
+    this.applyAll();
+  }
+
+  public setDuckingRules(rules: DuckingRule[]) {
+    this.duckingRules = rules;
+    this.applyDucking();
+  }
+
+  // Which layers are currently sounding; drives the ducking matrix
+  public setActiveChannels(active: Set<MixerChannelId>) {
+    this.activeChannels = new Set(active);
+    this.applyDucking();
+  }
+
+  public setSpatialEnabled(enabled: boolean) {
+    this.spatialEnabled = enabled;
+    this.strips.forEach(strip => strip.setSpatial(enabled));
+  }
+
+  public setChannelPosition(id: MixerChannelId, position: Vec3) {
+    const strip = this.strips.get(id);
+    if (!strip) return;
+    strip.setPosition(position);
+    strip.setSpatial(this.spatialEnabled);
+  }
+
+  public getLevel(id: MixerChannelId): number {
+    return this.strips.get(id)?.getLevel() ?? 0;
+  }
+
+  private applyDucking() {
+    const ducking = resolveDucking(this.duckingRules, this.activeChannels);
+    this.strips.forEach((strip, id) => strip.applyDuck(ducking.get(id)));
+  }
+
+  // Solo wins over mute: when anything is soloed, only soloed strips sound
+  private applyAll() {
+    const ids = Array.from(this.strips.keys());
+    const anySolo = ids.some(id => channelSettings(this.settings, id).solo);
+    this.strips.forEach((strip, id) => {
+      const ch = channelSettings(this.settings, id);
+      const audible = anySolo ? ch.solo : !ch.muted;
+      strip.apply(ch, audible);
+    });
+  }
+}
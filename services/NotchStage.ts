@@ -0,0 +1,102 @@
+// Number of cascaded notch filters used to carve the band.
+// A single biquad notch is only deep at its centre, so we spread several
+// across the band to get a flat, deep stop region.
+const NOTCH_FILTER_COUNT = 4;
+
+// Q for a biquad spanning `octaves` of bandwidth
+export const qForBandwidth = (octaves: number) => {
+  const ratio = Math.pow(2, octaves);
+  return Math.sqrt(ratio) / (ratio - 1);
+};
+
+// Notch stage for "tailor-made notched" sound therapy. Each ear's chain
+// (see EarStage) has one, so every garden layer passes through it.
+// When disabled the signal takes the dry path, so toggling is click-free.
+// Width is in octaves.
+export class NotchStage {
+  public readonly input: GainNode;
+  public readonly output: GainNode;
+
+  private ctx: BaseAudioContext;
+  private filters: BiquadFilterNode[] = [];
+  private dryGain: GainNode;
+  private wetGain: GainNode;
+
+  private enabled = false;
+  private frequency: number;
+  private width: number;
+
+  constructor(ctx: BaseAudioContext, frequency: number, width = 1) {
+    this.ctx = ctx;
+    this.frequency = frequency;
+    this.width = width;
+
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.dryGain = ctx.createGain();
+    this.wetGain = ctx.createGain();
+    this.dryGain.gain.value = 1;
+    this.wetGain.gain.value = 0;
+
+    // Dry path
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // Notched path
+    let prev: AudioNode = this.input;
+    for (let i = 0; i < NOTCH_FILTER_COUNT; i++) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'notch';
+      prev.connect(filter);
+      prev = filter;
+      this.filters.push(filter);
+    }
+    prev.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    this.applyFilterSettings(0);
+  }
+
+  public setEnabled(enabled: boolean) {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+    const now = this.ctx.currentTime;
+    this.dryGain.gain.setTargetAtTime(enabled ? 0 : 1, now, 0.15);
+    this.wetGain.gain.setTargetAtTime(enabled ? 1 : 0, now, 0.15);
+  }
+
+  public setFrequency(frequency: number) {
+    if (frequency <= 0 || frequency === this.frequency) return;
+    this.frequency = frequency;
+    this.applyFilterSettings(0.1);
+  }
+
+  public setWidth(width: number) {
+    if (width === this.width) return;
+    this.width = width;
+    this.applyFilterSettings(0.1);
+  }
+
+  public isEnabled() {
+    return this.enabled;
+  }
+
+  // Spread the filters evenly (in octaves) across the band, each covering
+  // half of the band so neighbours overlap without gaps.
+  private applyFilterSettings(glide: number) {
+    const now = this.ctx.currentTime;
+    const q = qForBandwidth(this.width / 2);
+    const nyquist = this.ctx.sampleRate / 2;
+
+    this.filters.forEach((filter, i) => {
+      const offset = this.width * (i + 0.5) / NOTCH_FILTER_COUNT - this.width / 2;
+      const f = Math.min(nyquist * 0.95, this.frequency * Math.pow(2, offset));
+      if (glide > 0) {
+        filter.frequency.setTargetAtTime(f, now, glide);
+      } else {
+        filter.frequency.setValueAtTime(f, now);
+      }
+      filter.Q.setValueAtTime(q, now);
+    });
+  }
+}
@@ -0,0 +1,357 @@
+import { PianoMode, PianoSettings } from '../types';
+import { Random, createRandom } from './random';
+import { createWhiteNoiseBuffer } from './noise';
+import { ReverbShape, createImpulseResponse } from './Reverb';
+
+// Generative piano. Music comes in phrases: a short motif stated two or
+// three times, moved along the scale between statements, closing on a long
+// tonic or fifth, then a rest. Motifs return across phrases and now and
+// then give way to a new one. Some notes get a second voice above.
+//
+// The scale's tonic is the matched frequency folded into one mid-range
+// octave, so the music shares the tinnitus's pitch class without ever
+// playing at its height.
+//
+// Notes are scheduled on the audio clock a little ahead of time by a timer
+// that only tops up the queue, so timing stays steady when the tab is in the
+// background and its timers are throttled.
+
+export const PIANO_MODES: Record<PianoMode, { label: string; steps: number[] }> = {
+  MAJOR_PENTATONIC: { label: 'Major Pentatonic', steps: [0, 2, 4, 7, 9] },
+  MINOR_PENTATONIC: { label: 'Minor Pentatonic', steps: [0, 3, 5, 7, 10] },
+  DORIAN: { label: 'Dorian', steps: [0, 2, 3, 5, 7, 9, 10] },
+  AEOLIAN: { label: 'Aeolian', steps: [0, 2, 3, 5, 7, 8, 10] },
+  LYDIAN: { label: 'Lydian', steps: [0, 2, 4, 6, 7, 9, 11] },
+  MIXOLYDIAN: { label: 'Mixolydian', steps: [0, 2, 4, 5, 7, 9, 10] },
+};
+
+export const MIN_PIANO_TEMPO = 36;
+export const MAX_PIANO_TEMPO = 96;
+
+export const DEFAULT_PIANO_SETTINGS: PianoSettings = { mode: 'MINOR_PENTATONIC', tempo: 54, pedal: true };
+
+// The tonic lies in the octave from E3, whatever octave the match is in
+const TONIC_LOW = 164.81;
+const DEFAULT_TONIC = 196.0; // G3, before there is a match
+
+// Fixed, so the hammer sounds the same in every session and export
+const HAMMER_SEED = 0x4a33;
+
+export const pianoTonic = (frequency: number): number => {
+  if (!(frequency > 0)) return DEFAULT_TONIC;
+  let tonic = frequency;
+  while (tonic >= TONIC_LOW * 2) tonic /= 2;
+  while (tonic < TONIC_LOW) tonic *= 2;
+  return tonic;
+};
+
+// --- Composition ---
+
+interface MotifNote {
+  offset: number; // Scale degrees from the motif's first note
+  beats: number; // Until the next note
+}
+
+interface PianoNote {
+  frequencies: number[]; // Empty for a rest
+  beats: number; // Until the next note
+  velocity: number; // 0-1
+}
+
+const NOTE_BEATS = [1, 1, 1.5, 2];
+const NEW_MOTIF_CHANCE = 0.35;
+const INVERSION_CHANCE = 0.3;
+const DYAD_CHANCE = 0.15;
+const CLOSING_DYAD_CHANCE = 0.5;
+
+const pick = <T>(items: readonly T[], random: Random): T => items[Math.floor(random() * items.length)];
+
+// Three or four notes moving by step or skip
+const createMotif = (random: Random): MotifNote[] => {
+  const length = 3 + Math.floor(random() * 2);
+  let offset = 0;
+  return Array.from({ length }, (_, i) => {
+    if (i > 0) offset += pick([-2, -1, 1, 1, 2], random);
+    return { offset, beats: pick(NOTE_BEATS, random) };
+  });
+};
+
+const degreeFrequency = (tonic: number, steps: number[], degree: number) => {
+  const octave = Math.floor(degree / steps.length);
+  return tonic * Math.pow(2, octave + steps[degree - octave * steps.length] / 12);
+};
+
+const composePhrase = (motif: MotifNote[], tonic: number, steps: number[], random: Random): PianoNote[] => {
+  const n = steps.length;
+  const fifth = steps.indexOf(7);
+  // Melodies stay within the two octaves above the tonic
+  const fold = (degree: number) => {
+    while (degree < 0) degree += n;
+    while (degree > 2 * n) degree -= n;
+    return degree;
+  };
+  const note = (degrees: number[], beats: number, velocity: number): PianoNote => ({
+    frequencies: degrees.map(d => degreeFrequency(tonic, steps, fold(d))),
+    beats,
+    velocity,
+  });
+  const withDyad = (degree: number, chance: number) =>
+    random() < chance ? [degree, degree + pick([2, 4], random)] : [degree];
+
+  const notes: PianoNote[] = [];
+  const statements = 2 + Math.floor(random() * 2);
+  let start = Math.floor(random() * (n + 2));
+  let degree = start;
+  for (let s = 0; s < statements; s++) {
+    const inverted = s > 0 && random() < INVERSION_CHANCE;
+    motif.forEach(({ offset, beats }) => {
+      degree = fold(start + (inverted ? -offset : offset));
+      notes.push(note(withDyad(degree, DYAD_CHANCE), beats, 0.5 + random() * 0.5));
+    });
+    start = Math.max(0, Math.min(n + 2, start + pick([-2, -1, 1, 2], random)));
+  }
+
+  // Close on the nearest tonic or fifth, held, then rest
+  const octave = Math.max(0, Math.min(1, Math.round(degree / n)));
+  const close = octave * n + (random() < 0.6 ? 0 : fifth);
+  notes.push(note(withDyad(close, CLOSING_DYAD_CHANCE), 3 + Math.floor(random() * 2), 0.6 + random() * 0.35));
+  notes.push(note([], 2 + Math.floor(random() * 6) / 2, 0));
+  return notes;
+};
+
+// --- Voice ---
+
+// Modal synthesis: each note is a sum of decaying partials. Piano strings
+// are stiff, so partial n sits at n·f·√(1 + B·n²) rather than exactly n·f.
+// The hammer strikes about a seventh of the way along the string, which
+// shapes the partial levels, and harder notes are brighter. The lowest
+// partials come from two slightly detuned strings, giving the slow beating
+// and long second decay of a real unison. A short burst of filtered noise
+// is the hammer itself.
+
+const PARTIALS = 8;
+const UNISON_PARTIALS = 3;
+const UNISON_DETUNE_CENTS = 1.2;
+const STRIKE_POSITION = 1 / 7;
+const MAX_PARTIAL_HZ = 9000;
+const NOTE_GAIN = 0.05; // At full velocity
+const DAMPER_SECONDS = 0.12; // Time constant of the damper once it falls
+
+// Stiffer (shorter) strings higher up are more inharmonic
+const inharmonicity = (freq: number) => 0.00015 * Math.pow(freq / 220, 1.2);
+
+// Low strings ring longest
+const decaySeconds = (freq: number) => Math.max(1.5, Math.min(9, 6 * Math.sqrt(220 / freq)));
+
+// One note at `t`, damped at `release` (when the key and, if down, the
+// pedal are let go). Returns a function that stops it early.
+const playPianoNote = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  hammer: AudioBuffer,
+  t: number,
+  freq: number,
+  velocity: number,
+  release: number
+) => {
+  const nodes: AudioNode[] = [];
+  const sources: AudioScheduledSourceNode[] = [];
+  const decay = decaySeconds(freq);
+  const end = Math.min(t + decay, release + DAMPER_SECONDS * 6);
+
+  const b = inharmonicity(freq);
+  const brightness = 0.45 + 0.4 * velocity;
+  const partials: { frequency: number; amplitude: number }[] = [];
+  for (let n = 1; n <= PARTIALS; n++) {
+    const frequency = n * freq * Math.sqrt(1 + b * n * n);
+    if (frequency > MAX_PARTIAL_HZ) break;
+    partials.push({ frequency, amplitude: (Math.abs(Math.sin(Math.PI * n * STRIKE_POSITION)) / n) * Math.pow(brightness, n - 1) });
+  }
+  const level = partials.reduce((sum, p) => sum + p.amplitude, 0);
+
+  // Partials sum to the note's level; the damper falls at the release
+  const damper = ctx.createGain();
+  damper.gain.setValueAtTime((NOTE_GAIN * velocity) / Math.max(1, level), t);
+  damper.gain.setTargetAtTime(0, release, DAMPER_SECONDS);
+  damper.connect(destination);
+  nodes.push(damper);
+
+  partials.forEach(({ frequency, amplitude }, i) => {
+    const n = i + 1;
+    const t60 = decay / (1 + 0.35 * i);
+    const strings = n <= UNISON_PARTIALS ? [-UNISON_DETUNE_CENTS, UNISON_DETUNE_CENTS] : [0];
+    strings.forEach(detune => {
+      const osc = ctx.createOscillator();
+      osc.frequency.value = frequency;
+      osc.detune.value = detune * n;
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, t);
+      gain.gain.linearRampToValueAtTime(amplitude / strings.length, t + 0.004);
+      gain.gain.setTargetAtTime(0, t + 0.004, t60 / 6.9);
+      osc.connect(gain);
+      gain.connect(damper);
+      nodes.push(osc, gain);
+      sources.push(osc);
+    });
+  });
+
+  // Hammer: a few milliseconds of noise around the upper partials
+  const thump = ctx.createBufferSource();
+  thump.buffer = hammer;
+  const thumpFilter = ctx.createBiquadFilter();
+  thumpFilter.type = 'bandpass';
+  thumpFilter.frequency.value = Math.min(freq * 6, 6000);
+  thumpFilter.Q.value = 0.8;
+  const thumpGain = ctx.createGain();
+  thumpGain.gain.setValueAtTime(0.25 * velocity * velocity, t);
+  thumpGain.gain.setTargetAtTime(0, t, 0.008);
+  thump.connect(thumpFilter);
+  thumpFilter.connect(thumpGain);
+  thumpGain.connect(damper);
+  nodes.push(thump, thumpFilter, thumpGain);
+  sources.push(thump);
+
+  sources.forEach(src => {
+    src.start(t);
+    src.stop(end);
+  });
+  sources[0].onended = () => nodes.forEach(node => node.disconnect());
+
+  return (at: number) => sources.forEach(src => src.stop(at));
+};
+
+// The piano's own room: a short, warm hall behind the dry sound
+const PIANO_SPACE: ReverbShape = { decaySeconds: 2.4, preDelay: 0.012, brightness: 0.7, damping: 0.6, reflections: 10 };
+const DRY_LEVEL = 0.85;
+const WET_LEVEL = 0.3;
+const TAIL_SECONDS = PIANO_SPACE.decaySeconds + 10; // Longest note plus the room
+
+// Built once per context and shared by every piano started on it
+const impulses = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const createPianoRoom = (ctx: BaseAudioContext, destination: AudioNode) => {
+  let impulse = impulses.get(ctx);
+  if (!impulse) {
+    impulse = createImpulseResponse(ctx, PIANO_SPACE);
+    impulses.set(ctx, impulse);
+  }
+  const input = ctx.createGain();
+  const dry = ctx.createGain();
+  dry.gain.value = DRY_LEVEL;
+  const convolver = ctx.createConvolver();
+  convolver.normalize = false;
+  convolver.buffer = impulse;
+  const wet = ctx.createGain();
+  wet.gain.value = WET_LEVEL;
+
+  input.connect(dry);
+  dry.connect(destination);
+  input.connect(convolver);
+  convolver.connect(wet);
+  wet.connect(destination);
+  return { input, disconnect: () => [input, dry, convolver, wet].forEach(node => node.disconnect()) };
+};
+
+// --- Scheduling ---
+
+export interface PianoOptions {
+  settings: PianoSettings;
+  frequency: number; // The matched frequency; sets the tonic
+  random: Random;
+}
+
+export interface PianoVoice {
+  // Takes effect from the next phrase
+  update: (options: Partial<PianoOptions>) => void;
+  // Cancels notes not yet started; sounding ones and the room ring out
+  stop: () => void;
+}
+
+interface PianoEvent {
+  time: number;
+  frequencies: number[];
+  velocity: number;
+  release: number;
+}
+
+// More than the second a background tab's timers may be held back
+const LOOKAHEAD_SECONDS = 1.5;
+const SCHEDULE_INTERVAL_MS = 200;
+// With the pedal, it goes down as a phrase starts and comes up this far
+// into the rest after it, letting the phrase ring together
+const PEDAL_LIFT_BEATS = 1;
+// Without it, notes are held for this share of their length
+const LEGATO = 0.9;
+
+export const startPiano = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  initial: PianoOptions,
+  when = ctx.currentTime
+): PianoVoice => {
+  let options = initial;
+  let motif: MotifNote[] | null = null;
+  let queue: PianoEvent[] = [];
+  let phraseEnd = when;
+  let pending: { time: number; stop: (at: number) => void }[] = [];
+  const room = createPianoRoom(ctx, destination);
+  const hammer = createWhiteNoiseBuffer(ctx, 0.05, createRandom(HAMMER_SEED));
+
+  // Times a whole phrase at the current tempo; with the pedal, every note
+  // is released when the pedal lifts
+  const queuePhrase = () => {
+    const { settings, frequency, random } = options;
+    if (!motif || random() < NEW_MOTIF_CHANCE) motif = createMotif(random);
+    const notes = composePhrase(motif, pianoTonic(frequency), PIANO_MODES[settings.mode].steps, random);
+    const beat = 60 / settings.tempo;
+    let time = phraseEnd;
+    notes.forEach(note => {
+      if (note.frequencies.length > 0) {
+        queue.push({ time, frequencies: note.frequencies, velocity: note.velocity, release: time + note.beats * beat * LEGATO });
+      } else if (settings.pedal) {
+        const lift = time + Math.min(note.beats, PEDAL_LIFT_BEATS) * beat;
+        queue.forEach(event => { event.release = lift; });
+      }
+      time += note.beats * beat;
+    });
+    phraseEnd = time;
+  };
+
+  const scheduleUntil = (horizon: number) => {
+    while (true) {
+      if (queue.length === 0) queuePhrase();
+      if (queue[0].time >= horizon) break;
+      const event = queue.shift()!;
+      event.frequencies.forEach((freq, i) => {
+        const velocity = i === 0 ? event.velocity : event.velocity * 0.7;
+        pending.push({ time: event.time, stop: playPianoNote(ctx, room.input, hammer, event.time, freq, velocity, event.release) });
+      });
+    }
+    pending = pending.filter(p => p.time > ctx.currentTime);
+  };
+
+  let timer: number | null = null;
+  if (ctx instanceof OfflineAudioContext) {
+    scheduleUntil(ctx.length / ctx.sampleRate);
+  } else {
+    scheduleUntil(ctx.currentTime + LOOKAHEAD_SECONDS);
+    timer = window.setInterval(() => scheduleUntil(ctx.currentTime + LOOKAHEAD_SECONDS), SCHEDULE_INTERVAL_MS);
+  }
+
+  return {
+    update: patch => {
+      options = { ...options, ...patch };
+    },
+    stop: () => {
+      if (timer !== null) window.clearInterval(timer);
+      const now = ctx.currentTime;
+      pending.forEach(p => {
+        if (p.time > now) {
+          try { p.stop(now); } catch (e) {}
+        }
+      });
+      pending = [];
+      window.setTimeout(room.disconnect, TAIL_SECONDS * 1000);
+    },
+  };
+};
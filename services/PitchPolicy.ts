@@ -0,0 +1,116 @@
+import { LayerId, PitchPolicies, PitchPolicy } from '../types';
+import { isUserLayerId } from './UserLayers';
+import { SOUND_LIBRARY } from './SoundLibrary';
+
+// How each layer meets the matched frequency. Every sound has a spectral
+// centroid, the frequency its energy is centred on. SHIFT transposes the
+// sound so that centre moves towards the match, EMPHASIS keeps its pitch
+// but lifts its energy around the match, NATURAL leaves it alone.
+
+export const PITCH_POLICIES: PitchPolicy[] = ['SHIFT', 'EMPHASIS', 'NATURAL'];
+
+export const PITCH_POLICY_LABELS: Record<PitchPolicy, string> = {
+  SHIFT: 'Shift',
+  EMPHASIS: 'Emphasise',
+  NATURAL: 'Natural',
+};
+
+// Built-in layers were made to be tuned; imported ones are often music or
+// voices that sound wrong transposed, so they start natural
+export const policyFor = (policies: PitchPolicies, id: LayerId): PitchPolicy =>
+  policies[id] ?? (isUserLayerId(id) ? 'NATURAL' : 'SHIFT');
+
+// How far a layer follows the match: FULL all the way, GENTLE the square
+// root of the ratio, over a narrower range
+export type PitchFollow = 'FULL' | 'GENTLE';
+
+export const shiftRatio = (centroid: number, frequency: number, follow: PitchFollow): number => {
+  const ratio = frequency / centroid;
+  return follow === 'FULL'
+    ? Math.max(0.5, Math.min(2.5, ratio))
+    : Math.max(0.6, Math.min(1.8, Math.sqrt(ratio)));
+};
+
+// Peaking boost used by EMPHASIS
+export const EMPHASIS_GAIN_DB = 6;
+export const EMPHASIS_WIDTH_OCTAVES = 1;
+
+// Where the layer's energy is centred once its policy is applied
+export const energyCentre = (centroid: number, frequency: number, follow: PitchFollow, policy: PitchPolicy): number =>
+  policy === 'SHIFT' ? centroid * shiftRatio(centroid, frequency, follow) : centroid;
+
+// Every built-in layer on the old single, global policy. Used to upgrade
+// profiles, presets and backups saved before policies were per layer.
+export const legacyPitchPolicies = (policy: PitchPolicy): PitchPolicies => {
+  const policies: PitchPolicies = {};
+  SOUND_LIBRARY.forEach(entry => { policies[entry.id] = policy; });
+  return policies;
+};
+
+// --- Analysis ---
+
+const FRAME_SIZE = 2048;
+const MAX_FRAMES = 48;
+
+// In-place radix-2 FFT
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+// Magnitude-weighted mean frequency, averaged over frames spread through
+// the recording. Returns null for silence or buffers shorter than a frame.
+export const measureCentroid = (buffer: AudioBuffer): number | null => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const frames = Math.min(MAX_FRAMES, Math.floor(buffer.length / FRAME_SIZE));
+  if (frames === 0) return null;
+  const hop = Math.floor((buffer.length - FRAME_SIZE) / Math.max(1, frames - 1));
+  const binHz = buffer.sampleRate / FRAME_SIZE;
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  let weighted = 0;
+  let total = 0;
+  for (let f = 0; f < frames; f++) {
+    const offset = f * hop;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      let sample = 0;
+      channels.forEach(data => { sample += data[offset + i]; });
+      const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+      re[i] = (sample / channels.length) * hann;
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 1; k < FRAME_SIZE / 2; k++) {
+      const magnitude = Math.hypot(re[k], im[k]);
+      weighted += k * binHz * magnitude;
+      total += magnitude;
+    }
+  }
+  return total > 0 ? weighted / total : null;
+};
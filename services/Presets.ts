@@ -0,0 +1,124 @@
+import { DuckingRule, GardenSpace, LayerId, MixerChannelId, MixerSettings, PitchPolicies, PitchPolicy, Preset } from '../types';
+import { channelSettings } from './Mixer';
+import { DEFAULT_DUCKING_RULES } from './Ducking';
+import { legacyPitchPolicies, policyFor } from './PitchPolicy';
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  { id: 'forest', name: 'Quiet Forest', sounds: ['BIRD', 'LEAVES', 'INSECT'], space: 'FOREST_CLEARING' },
+  // Rain stays under the other sounds, as it always has in this preset
+  { id: 'rain', name: 'Rainy Shelter', sounds: ['RAIN', 'WATER', 'WIND'], space: 'STONE_PAVILION', duckingRules: DEFAULT_DUCKING_RULES },
+  { id: 'ocean', name: 'Ocean Breeze', sounds: ['WATER', 'WIND', 'BIRD'], space: 'OPEN_LAKE' },
+  { id: 'night', name: 'Summer Night', sounds: ['INSECT', 'WIND'], space: 'FOREST_CLEARING' },
+];
+
+// What is playing right now, as far as presets are concerned
+export interface MixState {
+  sounds: Set<LayerId>;
+  mixer: MixerSettings;
+  droneActive: boolean;
+  pianoActive: boolean;
+  pitchPolicies: PitchPolicies;
+  space: GardenSpace;
+  duckingRules: DuckingRule[];
+  seed: number;
+}
+
+// Fader positions closer than this count as the same level
+const VOLUME_TOLERANCE = 0.01;
+
+// Same rules in the same order; ids are only for editing, so they don't count
+const sameDuckingRules = (a: DuckingRule[], b: DuckingRule[]) =>
+  a.length === b.length && a.every((rule, i) =>
+    rule.source === b[i].source &&
+    rule.target === b[i].target &&
+    rule.amount === b[i].amount &&
+    rule.attack === b[i].attack &&
+    rule.release === b[i].release);
+
+export const createPreset = (name: string, mix: MixState): Preset => {
+  const channels: MixerChannelId[] = Array.from(mix.sounds);
+  if (mix.droneActive) channels.push('DRONE');
+  if (mix.pianoActive) channels.push('PIANO');
+
+  const volumes: Partial<Record<MixerChannelId, number>> = {};
+  channels.forEach(id => { volumes[id] = channelSettings(mix.mixer, id).gain; });
+
+  const pitchPolicies: PitchPolicies = {};
+  mix.sounds.forEach(id => { pitchPolicies[id] = policyFor(mix.pitchPolicies, id); });
+
+  return {
+    id: `preset-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`,
+    name,
+    sounds: Array.from(mix.sounds),
+    volumes,
+    droneActive: mix.droneActive,
+    pianoActive: mix.pianoActive,
+    pitchPolicies,
+    space: mix.space,
+    duckingRules: mix.duckingRules,
+    seed: mix.seed,
+  };
+};
+
+// A preset is active when its sounds are exactly the playing ones and every
+// field it captured (levels, harmony, pitch policies, space, ducking) still matches. The seed
+// only varies the detail, so a reseeded garden still counts as the preset.
+export const presetMatches = (preset: Preset, mix: MixState): boolean => {
+  if (preset.sounds.length !== mix.sounds.size) return false;
+  if (!preset.sounds.every(s => mix.sounds.has(s))) return false;
+  if (preset.droneActive !== undefined && preset.droneActive !== mix.droneActive) return false;
+  if (preset.pianoActive !== undefined && preset.pianoActive !== mix.pianoActive) return false;
+  if (preset.space !== undefined && preset.space !== mix.space) return false;
+  if (preset.duckingRules !== undefined && !sameDuckingRules(preset.duckingRules, mix.duckingRules)) return false;
+  const policies = preset.pitchPolicies ?? {};
+  if (!(Object.keys(policies) as LayerId[]).every(id => policies[id] === policyFor(mix.pitchPolicies, id))) return false;
+  const volumes = preset.volumes ?? {};
+  return (Object.keys(volumes) as MixerChannelId[]).every(
+    id => Math.abs(channelSettings(mix.mixer, id).gain - volumes[id]!) <= VOLUME_TOLERANCE
+  );
+};
+
+// Saved presets are checked first: they're more specific than the
+// built-in ones, which only list sounds
+export const findActivePreset = (userPresets: Preset[], mix: MixState): Preset | undefined =>
+  [...userPresets, ...BUILT_IN_PRESETS].find(preset => presetMatches(preset, mix));
+
+// Levels from a preset, applied on top of the current mixer settings
+export const applyPresetVolumes = (settings: MixerSettings, preset: Preset): MixerSettings => {
+  if (!preset.volumes) return settings;
+  const next = { ...settings };
+  (Object.keys(preset.volumes) as MixerChannelId[]).forEach(id => {
+    next[id] = { ...channelSettings(next, id), gain: preset.volumes![id]! };
+  });
+  return next;
+};
+
+// --- Persistence ---
+const STORAGE_KEY = 'resonance-garden.presets';
+
+// Presets saved before policies were per layer held one `pitchPolicy`
+export const upgradePreset = (preset: Preset & { pitchPolicy?: PitchPolicy }): Preset => {
+  const { pitchPolicy, ...rest } = preset;
+  if (pitchPolicy === undefined) return preset;
+  return { ...rest, pitchPolicies: legacyPitchPolicies(pitchPolicy) };
+};
+
+export const loadUserPresets = (): Preset[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw);
+    if (Array.isArray(stored)) return stored.map(upgradePreset);
+  } catch (e) {
+    console.warn('[Presets] Could not read saved presets.', e);
+  }
+  return [];
+};
+
+export const saveUserPresets = (presets: Preset[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn('[Presets] Could not save presets.', e);
+  }
+};
@@ -0,0 +1,169 @@
+import { FrequencyHistoryEntry, PitchPolicy, Profile, ProfilePreferences, StoredUserLayer, UserLayerId } from '../types';
+import { createDefaultEarMatches } from './EarStage';
+import { createDefaultMixerSettings, loadMixerSettings } from './Mixer';
+import { DEFAULT_TONE_CHARACTER, loadToneCharacter } from './MatchingTone';
+import { legacyPitchPolicies } from './PitchPolicy';
+import { DEFAULT_PIANO_SETTINGS } from './Piano';
+import { DEFAULT_DRONE_SETTINGS } from './Drone';
+import { DEFAULT_SPACE } from './Reverb';
+import { DEFAULT_OUTPUT_CEILING_DB } from './Safety';
+
+// Profiles live in IndexedDB so they survive reloads and can hold a long
+// frequency history. Everything here is async; callers fall back to
+// in-memory state when the database can't be opened (e.g. private mode).
+// Imported layers are kept here too, with their audio, for every profile.
+
+const DB_NAME = 'resonance-garden';
+const DB_VERSION = 2;
+const PROFILE_STORE = 'profiles';
+const META_STORE = 'meta';
+const LAYER_STORE = 'layers'; // Added in version 2
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+// Enough for a long-term record without letting the profile grow unbounded
+const MAX_HISTORY = 100;
+
+export const DEFAULT_PREFERENCES: ProfilePreferences = {
+  masterLevelDb: -6,
+  notchActive: false,
+  notchWidth: 1,
+  spatialAudio: true,
+  pitchPolicies: {}, // Every layer on its default
+  piano: DEFAULT_PIANO_SETTINGS,
+  drone: DEFAULT_DRONE_SETTINGS,
+  space: DEFAULT_SPACE,
+  outputCeilingDb: DEFAULT_OUTPUT_CEILING_DB,
+  normaliseLoudness: true,
+  sessionFadeSeconds: 60,
+  sleepMode: false,
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+        db.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(LAYER_STORE)) {
+        db.createObjectStore(LAYER_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result
+const run = async <T,>(
+  storeName: string,
+  txMode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, txMode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const createProfileId = () =>
+  `profile-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+// A fresh, unconfirmed profile
+export const createProfile = (name: string): Profile => {
+  const now = Date.now();
+  return {
+    id: createProfileId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    ears: createDefaultEarMatches(),
+    confirmed: false,
+    toneCharacter: DEFAULT_TONE_CHARACTER,
+    loudnessDb: null,
+    mmlDb: null,
+    history: [],
+    lastMix: { sounds: [], droneActive: false, pianoActive: false, mixer: createDefaultMixerSettings() },
+    preferences: { ...DEFAULT_PREFERENCES },
+  };
+};
+
+// The first profile picks up the levels and sound character saved by
+// earlier versions of the app
+export const createFirstProfile = (name: string): Profile => {
+  const profile = createProfile(name);
+  return {
+    ...profile,
+    toneCharacter: loadToneCharacter(),
+    lastMix: { ...profile.lastMix, mixer: loadMixerSettings() },
+  };
+};
+
+// Records a completed tuning pass and marks the profile as confirmed
+export const withHistoryEntry = (profile: Profile, entry: FrequencyHistoryEntry): Profile => ({
+  ...profile,
+  ears: entry.ears,
+  loudnessDb: entry.loudnessDb,
+  mmlDb: entry.mmlDb,
+  confirmed: true,
+  history: [...profile.history, entry].slice(-MAX_HISTORY),
+});
+
+// Profiles saved before pitch policies were per layer held one
+// `pitchPolicy` preference
+export const upgradeProfile = (profile: Profile): Profile => {
+  const { pitchPolicy, ...preferences } = profile.preferences as ProfilePreferences & { pitchPolicy?: PitchPolicy };
+  if (pitchPolicy === undefined) return profile;
+  return { ...profile, preferences: { ...preferences, pitchPolicies: legacyPitchPolicies(pitchPolicy) } };
+};
+
+export const loadProfiles = async (): Promise<Profile[]> => {
+  const profiles = await run<Profile[]>(PROFILE_STORE, 'readonly', store => store.getAll());
+  return profiles.map(upgradeProfile).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveProfile = (profile: Profile): Promise<void> =>
+  run<IDBValidKey>(PROFILE_STORE, 'readwrite', store => store.put({ ...profile, updatedAt: Date.now() }))
+    .then(() => undefined);
+
+export const deleteProfile = (id: string): Promise<void> =>
+  run<undefined>(PROFILE_STORE, 'readwrite', store => store.delete(id));
+
+export const loadActiveProfileId = (): Promise<string | null> =>
+  run<string | undefined>(META_STORE, 'readonly', store => store.get(ACTIVE_PROFILE_KEY))
+    .then(id => id ?? null);
+
+export const saveActiveProfileId = (id: string): Promise<void> =>
+  run<IDBValidKey>(META_STORE, 'readwrite', store => store.put(id, ACTIVE_PROFILE_KEY))
+    .then(() => undefined);
+
+// --- Imported layers ---
+
+export const loadUserLayers = async (): Promise<StoredUserLayer[]> => {
+  const layers = await run<StoredUserLayer[]>(LAYER_STORE, 'readonly', store => store.getAll());
+  return layers.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveUserLayer = (layer: StoredUserLayer): Promise<void> =>
+  run<IDBValidKey>(LAYER_STORE, 'readwrite', store => store.put(layer)).then(() => undefined);
+
+export const deleteUserLayer = (id: UserLayerId): Promise<void> =>
+  run<undefined>(LAYER_STORE, 'readwrite', store => store.delete(id));
@@ -0,0 +1,129 @@
+import { GardenSpace } from '../types';
+import { Random, createRandom } from './random';
+
+// Synthetic impulse responses for ConvolverNodes. A tail of decorrelated
+// noise per channel decays exponentially, and a lowpass that closes as the
+// tail goes on makes the highs die away first, as air and soft surfaces do.
+// A few sparse early reflections ahead of the tail give the space its size.
+
+export interface ReverbShape {
+  decaySeconds: number; // RT60 of the tail
+  preDelay: number; // Seconds before the first reflection
+  brightness: number; // 0-1, how much high end the tail starts with
+  damping: number; // 0-1, how quickly the high end fades along the tail
+  reflections: number; // Early reflections before the tail
+}
+
+// Fixed, so the same space sounds identical live and in every export
+const IMPULSE_SEED = 0x5eed;
+
+export const createImpulseResponse = (ctx: BaseAudioContext, shape: ReverbShape, random: Random = createRandom(IMPULSE_SEED)): AudioBuffer => {
+  const rate = ctx.sampleRate;
+  const length = Math.ceil((shape.preDelay + shape.decaySeconds * 1.1) * rate);
+  const buffer = ctx.createBuffer(2, length, rate);
+  const start = Math.floor(shape.preDelay * rate);
+
+  for (let c = 0; c < 2; c++) {
+    const data = buffer.getChannelData(c);
+
+    // Early reflections spread over the first 80 ms, falling in level
+    for (let r = 0; r < shape.reflections; r++) {
+      const at = start + Math.floor(random() * 0.08 * rate);
+      if (at < length) data[at] += (random() < 0.5 ? -1 : 1) * (0.6 - 0.4 * (r / shape.reflections));
+    }
+
+    // One-pole lowpass whose coefficient falls from `brightness` along the tail
+    let low = 0;
+    for (let i = start; i < length; i++) {
+      const t = (i - start) / rate;
+      const envelope = Math.exp((-6.9 * t) / shape.decaySeconds);
+      const coefficient = Math.max(0.02, shape.brightness * Math.exp(-shape.damping * 4 * t));
+      low += coefficient * ((random() * 2 - 1) - low);
+      data[i] += low * envelope * 0.5;
+    }
+  }
+
+  // Unit energy per channel, so spaces of any length sit at a similar level
+  for (let c = 0; c < 2; c++) {
+    const data = buffer.getChannelData(c);
+    let energy = 0;
+    for (let i = 0; i < length; i++) energy += data[i] * data[i];
+    const scale = energy > 0 ? 1 / Math.sqrt(energy) : 0;
+    for (let i = 0; i < length; i++) data[i] *= scale;
+  }
+  return buffer;
+};
+
+// --- Garden spaces ---
+
+export const GARDEN_SPACES: Record<GardenSpace, { label: string; shape: ReverbShape }> = {
+  // Short and dark: foliage scatters the sound and soaks up the highs
+  FOREST_CLEARING: {
+    label: 'Forest Clearing',
+    shape: { decaySeconds: 1.6, preDelay: 0.02, brightness: 0.5, damping: 0.8, reflections: 14 },
+  },
+  // The pavilion's stone: close, dense and bright
+  STONE_PAVILION: {
+    label: 'Stone Pavilion',
+    shape: { decaySeconds: 2.8, preDelay: 0.008, brightness: 0.9, damping: 0.3, reflections: 24 },
+  },
+  // Few reflections, late, from a far shore, over a long soft tail
+  OPEN_LAKE: {
+    label: 'Open Lake',
+    shape: { decaySeconds: 3.6, preDelay: 0.06, brightness: 0.6, damping: 0.5, reflections: 4 },
+  },
+};
+
+export const DEFAULT_SPACE: GardenSpace = 'FOREST_CLEARING';
+
+const SPACE_CROSSFADE_SECONDS = 1.5;
+const RETURN_LEVEL = 0.6;
+
+// Shared send reverb. Every mixer strip sends to `input`; the return at
+// `output` joins the dry mix ahead of the per-ear stage, so the notch
+// applies to the reverb too. A new space crossfades from the old one.
+export class SendReverb {
+  public readonly input: GainNode;
+  public readonly output: GainNode;
+  private current: { convolver: ConvolverNode; gain: GainNode };
+  private impulses = new Map<GardenSpace, AudioBuffer>();
+
+  constructor(private ctx: BaseAudioContext, private space: GardenSpace = DEFAULT_SPACE) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.output.gain.value = RETURN_LEVEL;
+    this.current = this.createPath(space, 1);
+  }
+
+  public setSpace(space: GardenSpace) {
+    if (space === this.space) return;
+    this.space = space;
+    const now = this.ctx.currentTime;
+    const old = this.current;
+    old.gain.gain.setTargetAtTime(0, now, SPACE_CROSSFADE_SECONDS / 3);
+    window.setTimeout(() => {
+      old.convolver.disconnect();
+      old.gain.disconnect();
+    }, SPACE_CROSSFADE_SECONDS * 2000);
+
+    this.current = this.createPath(space, 0);
+    this.current.gain.gain.setTargetAtTime(1, now, SPACE_CROSSFADE_SECONDS / 3);
+  }
+
+  private createPath(space: GardenSpace, level: number) {
+    let impulse = this.impulses.get(space);
+    if (!impulse) {
+      impulse = createImpulseResponse(this.ctx, GARDEN_SPACES[space].shape);
+      this.impulses.set(space, impulse);
+    }
+    const convolver = this.ctx.createConvolver();
+    convolver.normalize = false;
+    convolver.buffer = impulse;
+    const gain = this.ctx.createGain();
+    gain.gain.value = level;
+    this.input.connect(convolver);
+    convolver.connect(gain);
+    gain.connect(this.output);
+    return { convolver, gain };
+  }
+}
@@ -0,0 +1,203 @@
+import { MIX_REFERENCE_DB, dbToGain, gainToDb } from './levels';
+
+// The master safety chain: a slow loudness normaliser ahead of the master
+// level, and a brick-wall limiter at the very end of the garden bus that
+// nothing the layers do can get past.
+
+export const DEFAULT_OUTPUT_CEILING_DB = -3;
+export const MIN_OUTPUT_CEILING_DB = -24;
+export const MAX_OUTPUT_CEILING_DB = 0;
+
+// Seconds of continuous limiting after which the listener is warned
+export const CEILING_WARNING_SECONDS = 5;
+
+export interface SafetyStatus {
+  ceilingHitSeconds: number; // 0 unless the limiter is working right now
+  normaliserDb: number; // Correction the normaliser is applying
+}
+
+// --- Loudness normaliser ---
+
+// Normalised mix level, so the master level keeps its calibrated meaning
+const TARGET_DB = MIX_REFERENCE_DB;
+// Cut-only: the garden may be turned down as layers pile up, but never
+// louder than the listener set it, which could startle a sensitive ear
+const MAX_BOOST_DB = 0;
+const MAX_CUT_DB = -12;
+// Below this the garden is all but silent; the gain holds rather than
+// swelling to meet the next layer
+const SILENCE_DB = -60;
+const MEASURE_INTERVAL_SECONDS = 0.5;
+// Smoothing of the measured loudness, then of the gain itself: together
+// a layer coming or going settles over several seconds, not a beat
+const LOUDNESS_SMOOTHING = 0.25;
+const GAIN_TIME_CONSTANT = 2;
+
+// Measures the mix through a rough K-weighting (the ear's low-end roll-off
+// and presence lift) and turns it down towards the target when it is
+// louder. The measurement is taken ahead of the gain, so the correction
+// never chases itself.
+export class LoudnessNormaliser {
+  public readonly input: GainNode;
+  public readonly output: GainNode;
+
+  private analyser: AnalyserNode;
+  private data: Float32Array<ArrayBuffer>;
+  private loudness: number | null = null;
+  private timer: number | null = null;
+
+  // An export can start from the live correction rather than from unity
+  constructor(private ctx: BaseAudioContext, private enabled = true, private correctionDb = 0) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.output.gain.value = dbToGain(this.gainDb);
+    this.input.connect(this.output);
+
+    const highpass = ctx.createBiquadFilter();
+    highpass.type = 'highpass';
+    highpass.frequency.value = 60;
+    const shelf = ctx.createBiquadFilter();
+    shelf.type = 'highshelf';
+    shelf.frequency.value = 1500;
+    shelf.gain.value = 4;
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = 16384;
+    this.data = new Float32Array(this.analyser.fftSize);
+    this.input.connect(highpass);
+    highpass.connect(shelf);
+    shelf.connect(this.analyser);
+
+    if (ctx instanceof OfflineAudioContext) {
+      // Exports pause the render at each step to measure, so a track is
+      // levelled just as it would be live
+      for (let t = MEASURE_INTERVAL_SECONDS; t < ctx.length / ctx.sampleRate; t += MEASURE_INTERVAL_SECONDS) {
+        ctx.suspend(t).then(() => {
+          this.measure();
+          ctx.resume();
+        });
+      }
+    } else {
+      this.timer = window.setInterval(() => this.measure(), MEASURE_INTERVAL_SECONDS * 1000);
+    }
+  }
+
+  // Current correction in dB, 0 when switched off
+  public get gainDb(): number {
+    return this.enabled ? this.correctionDb : 0;
+  }
+
+  public setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.apply();
+  }
+
+  // Stops the live meter and takes the normaliser out of the graph
+  public dispose() {
+    if (this.timer !== null) window.clearInterval(this.timer);
+    this.timer = null;
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+
+  private measure() {
+    this.analyser.getFloatTimeDomainData(this.data);
+    let sum = 0;
+    for (let i = 0; i < this.data.length; i++) sum += this.data[i] * this.data[i];
+    const db = gainToDb(Math.sqrt(sum / this.data.length));
+    if (db < SILENCE_DB) return;
+
+    this.loudness = this.loudness === null ? db : this.loudness + LOUDNESS_SMOOTHING * (db - this.loudness);
+    this.correctionDb = Math.max(MAX_CUT_DB, Math.min(MAX_BOOST_DB, TARGET_DB - this.loudness));
+    this.apply();
+  }
+
+  private apply() {
+    this.output.gain.setTargetAtTime(dbToGain(this.gainDb), this.ctx.currentTime, GAIN_TIME_CONSTANT);
+  }
+}
+
+// --- Limiter ---
+
+// Gain reduction (dB) that counts as the ceiling being hit
+const HIT_REDUCTION_DB = -1;
+// Gaps shorter than this between hits still count as one continuous run
+const HIT_GAP_SECONDS = 1.5;
+const HIT_SAMPLE_MS = 250;
+
+// Soft-kneed clip to ±1: exact below 0.8, bending into the wall above
+const createClipCurve = () => {
+  const size = 4096;
+  const curve = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (i / (size - 1)) * 2 - 1;
+    const a = Math.abs(x);
+    const y = a <= 0.8 ? a : 0.8 + 0.2 * Math.tanh((a - 0.8) / 0.2);
+    curve[i] = Math.sign(x) * y;
+  }
+  return curve;
+};
+
+// The signal is scaled so the ceiling sits at full scale, a fast compressor
+// takes the peaks down, and a clipper catches whatever its attack lets
+// through. The result is scaled back, so no sample ever exceeds the ceiling.
+export class Limiter {
+  public readonly input: GainNode;
+  public readonly output: GainNode;
+
+  private compressor: DynamicsCompressorNode;
+  private hitSince: number | null = null;
+  private lastHit: number | null = null;
+  private timer: number | null = null;
+
+  constructor(private ctx: BaseAudioContext, ceilingDb: number = DEFAULT_OUTPUT_CEILING_DB) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+
+    this.compressor = ctx.createDynamicsCompressor();
+    this.compressor.threshold.value = -2;
+    this.compressor.knee.value = 0;
+    this.compressor.ratio.value = 20;
+    this.compressor.attack.value = 0.001;
+    this.compressor.release.value = 0.1;
+    const clipper = ctx.createWaveShaper();
+    clipper.curve = createClipCurve();
+    clipper.oversample = '4x';
+
+    this.input.connect(this.compressor);
+    this.compressor.connect(clipper);
+    clipper.connect(this.output);
+    this.input.gain.value = dbToGain(-ceilingDb);
+    this.output.gain.value = dbToGain(ceilingDb);
+
+    if (!(ctx instanceof OfflineAudioContext)) {
+      this.timer = window.setInterval(() => this.sample(), HIT_SAMPLE_MS);
+    }
+  }
+
+  public setCeiling(db: number) {
+    const now = this.ctx.currentTime;
+    this.input.gain.setTargetAtTime(dbToGain(-db), now, 0.05);
+    this.output.gain.setTargetAtTime(dbToGain(db), now, 0.05);
+  }
+
+  // How long the ceiling has been hit without a break, in seconds
+  public ceilingHitSeconds(): number {
+    if (this.hitSince === null || this.lastHit === null) return 0;
+    if (this.ctx.currentTime - this.lastHit > HIT_GAP_SECONDS) return 0;
+    return this.ctx.currentTime - this.hitSince;
+  }
+
+  public dispose() {
+    if (this.timer !== null) window.clearInterval(this.timer);
+    this.timer = null;
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+
+  private sample() {
+    if (this.compressor.reduction > HIT_REDUCTION_DB) return;
+    const now = this.ctx.currentTime;
+    if (this.lastHit === null || now - this.lastHit > HIT_GAP_SECONDS) this.hitSince = now;
+    this.lastHit = now;
+  }
+}
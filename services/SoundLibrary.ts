@@ -0,0 +1,139 @@
+import { InteractionType, LayerId } from '../types';
+import { PitchFollow } from './PitchPolicy';
+
+// The garden's sound library. Each layer is described here once: which
+// file to load, how it follows the matched frequency, how it loops and
+// fades, and which synth stands in when the file is missing. Adding a
+// sound means adding an entry, plus its synth in Layers.ts if it needs a
+// new one. Imported layers get an entry of their own (see UserLayers.ts).
+
+export type FallbackSynth = 'CHIRP' | 'RUSTLE' | 'GUST' | 'SURF' | 'SHOWER' | 'BUZZ';
+
+export interface SoundEntry {
+  id: LayerId;
+  file: string; // Relative to public/; the file name for imported layers
+  centroid: number; // Spectral centroid in Hz. Measured when the file loads; this value stands in until then.
+  pitchFollow: PitchFollow; // How far a shifted layer moves towards the matched frequency
+  loop: boolean; // One-shot sounds play once per tap
+  loopStart?: number; // Seconds; the whole file loops when unset
+  loopEnd?: number;
+  loopCrossfade?: number; // Seconds of overlap between passes of the loop, see LoopPlayer.ts
+  rateJitter: number; // Random playback rate spread, e.g. 0.1 for ±10%
+  rateDrift?: number; // Looped sounds vary their rate by up to this much on each pass
+  gain: number; // Trims the recording before its channel strip
+  fadeIn: number; // Seconds
+  release: number; // Seconds
+  fallback?: { // Imported layers always have their audio
+    synth: FallbackSynth;
+    gain: number;
+    fadeIn: number;
+    release: number;
+  };
+}
+
+// Built-in sounds always have a synth to fall back on
+export interface LibraryEntry extends SoundEntry {
+  id: InteractionType;
+  fallback: NonNullable<SoundEntry['fallback']>;
+}
+
+export const SOUND_LIBRARY: LibraryEntry[] = [
+  {
+    id: 'BIRD', file: 'bird.mp3', centroid: 3500, pitchFollow: 'FULL', loop: false, rateJitter: 0,
+    gain: 0.7, fadeIn: 0.2, release: 0.5,
+    fallback: { synth: 'CHIRP', gain: 0.1, fadeIn: 0, release: 0.1 },
+  },
+  {
+    id: 'WIND', file: 'wind.mp3', centroid: 700, pitchFollow: 'GENTLE', loop: true, rateJitter: 0,
+    loopCrossfade: 3, rateDrift: 0.015,
+    gain: 0.8, fadeIn: 1.0, release: 1.5,
+    fallback: { synth: 'GUST', gain: 0.25, fadeIn: 2.0, release: 2.0 },
+  },
+  {
+    id: 'LEAVES', file: 'leaves.mp3', centroid: 4200, pitchFollow: 'GENTLE', loop: true, rateJitter: 0.1,
+    loopCrossfade: 1.5, rateDrift: 0.015,
+    gain: 0.6, fadeIn: 0.3, release: 0.6,
+    fallback: { synth: 'RUSTLE', gain: 0.15, fadeIn: 0.5, release: 0.5 },
+  },
+  {
+    id: 'WATER', file: 'sea.mp3', centroid: 1100, pitchFollow: 'GENTLE', loop: true, rateJitter: 0.05,
+    loopCrossfade: 4, rateDrift: 0.015,
+    gain: 0.7, fadeIn: 1.5, release: 1.5,
+    fallback: { synth: 'SURF', gain: 0.3, fadeIn: 2.0, release: 2.0 },
+  },
+  {
+    id: 'RAIN', file: 'rain.mp3', centroid: 3200, pitchFollow: 'GENTLE', loop: true, rateJitter: 0,
+    loopCrossfade: 2, rateDrift: 0.015,
+    gain: 0.15, fadeIn: 0.8, release: 0.8,
+    fallback: { synth: 'SHOWER', gain: 0.08, fadeIn: 1.0, release: 1.0 },
+  },
+  {
+    id: 'INSECT', file: 'insect.mp3', centroid: 5500, pitchFollow: 'FULL', loop: true, rateJitter: 0,
+    loopCrossfade: 1, rateDrift: 0.015,
+    gain: 0.5, fadeIn: 0.3, release: 0.5,
+    fallback: { synth: 'BUZZ', gain: 0.05, fadeIn: 0.5, release: 0.3 },
+  },
+];
+
+export const soundEntry = (id: InteractionType): LibraryEntry =>
+  SOUND_LIBRARY.find(entry => entry.id === id)!;
+
+// --- Loading ---
+
+export type SoundStatus = 'LOADED' | 'MISSING' | 'UNDECODABLE';
+
+export interface SoundReport {
+  id: InteractionType;
+  file: string;
+  status: SoundStatus;
+  detail?: string; // Why the file couldn't be used
+}
+
+const pathsFor = (file: string) => [`./${file}`, `/${file}`, file];
+
+// Fetches and decodes every file in the library. Sounds that fail keep
+// their fallback synth; the report says which and why.
+export const loadSoundLibrary = async (
+  ctx: BaseAudioContext
+): Promise<{ buffers: Partial<Record<InteractionType, AudioBuffer>>; report: SoundReport[] }> => {
+  const buffers: Partial<Record<InteractionType, AudioBuffer>> = {};
+  const report: SoundReport[] = [];
+
+  for (const entry of SOUND_LIBRARY) {
+    let result: SoundReport = { id: entry.id, file: entry.file, status: 'MISSING', detail: 'not found' };
+    for (const path of pathsFor(entry.file)) {
+      let data: ArrayBuffer;
+      try {
+        const res = await fetch(path);
+        if (!res.ok) {
+          result.detail = `HTTP ${res.status}`;
+          continue;
+        }
+        // Dev servers answer unknown paths with the app's index page
+        if (res.headers.get('content-type')?.includes('text/html')) {
+          result.detail = 'not found';
+          continue;
+        }
+        data = await res.arrayBuffer();
+      } catch (e) {
+        continue; // Try the next path
+      }
+      try {
+        buffers[entry.id] = await ctx.decodeAudioData(data);
+        result = { id: entry.id, file: entry.file, status: 'LOADED' };
+      } catch (e) {
+        result = { id: entry.id, file: entry.file, status: 'UNDECODABLE', detail: e instanceof Error ? e.message : String(e) };
+      }
+      break;
+    }
+
+    if (result.status === 'LOADED') {
+      console.log(`[SoundLibrary] Loaded ${entry.file}.`);
+    } else {
+      console.warn(`[SoundLibrary] Could not use ${entry.file} (${result.detail}). Using the ${entry.fallback.synth.toLowerCase()} synth instead.`);
+    }
+    report.push(result);
+  }
+
+  return { buffers, report };
+};
@@ -0,0 +1,111 @@
+import { LayerId } from '../types';
+
+// Personalised masking tracks: the current mix rendered offline, cut into
+// a loop that repeats without a seam, and saved as 16-bit WAV.
+
+export const EXPORT_DURATIONS_MINUTES = [1, 5, 10];
+export const EXPORT_SAMPLE_RATE = 44100;
+
+// Rendered before the loop starts, so every layer has faded in
+export const PRE_ROLL_SECONDS = 5;
+// Rendered after the loop and crossfaded into its start
+export const LOOP_CROSSFADE_SECONDS = 4;
+
+export interface TrackRenderOptions {
+  durationSeconds: number;
+  seed: number; // The same seed and mix always render the same track
+  frequency: number;
+  sounds: LayerId[];
+  droneActive: boolean;
+  pianoActive: boolean;
+}
+
+// Seconds to render for a loop of the given length
+export const renderLength = (durationSeconds: number) =>
+  PRE_ROLL_SECONDS + durationSeconds + LOOP_CROSSFADE_SECONDS;
+
+// Cuts the loop out of a render made with renderLength(). The audio just
+// after the loop is faded into its first seconds (equal power), so the
+// last sample runs straight on into the first.
+export const extractLoop = (rendered: AudioBuffer, durationSeconds: number): Float32Array[] => {
+  const rate = rendered.sampleRate;
+  const start = Math.round(PRE_ROLL_SECONDS * rate);
+  const length = Math.round(durationSeconds * rate);
+  const fade = Math.round(LOOP_CROSSFADE_SECONDS * rate);
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < rendered.numberOfChannels; c++) {
+    const data = rendered.getChannelData(c);
+    const loop = data.slice(start, start + length);
+    for (let i = 0; i < fade; i++) {
+      const x = i / fade;
+      loop[i] = data[start + i] * Math.sqrt(x) + data[start + length + i] * Math.sqrt(1 - x);
+    }
+    channels.push(loop);
+  }
+  return channels;
+};
+
+// 16-bit PCM WAV. A `smpl` chunk marks the whole file as one forward
+// loop, for players and samplers that honour loop points.
+export const encodeWav = (channels: Float32Array[], sampleRate: number): Blob => {
+  const channelCount = channels.length;
+  const frames = channels[0].length;
+  const dataSize = frames * channelCount * 2;
+  const smplSize = 36 + 24;
+  const buffer = new ArrayBuffer(12 + 24 + 8 + dataSize + 8 + smplSize);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const writeString = (value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset++, value.charCodeAt(i));
+  };
+  const writeUint32 = (value: number) => { view.setUint32(offset, value, true); offset += 4; };
+  const writeUint16 = (value: number) => { view.setUint16(offset, value, true); offset += 2; };
+
+  writeString('RIFF');
+  writeUint32(buffer.byteLength - 8);
+  writeString('WAVE');
+
+  writeString('fmt ');
+  writeUint32(16);
+  writeUint16(1); // PCM
+  writeUint16(channelCount);
+  writeUint32(sampleRate);
+  writeUint32(sampleRate * channelCount * 2);
+  writeUint16(channelCount * 2);
+  writeUint16(16);
+
+  writeString('data');
+  writeUint32(dataSize);
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      offset += 2;
+    }
+  }
+
+  writeString('smpl');
+  writeUint32(smplSize);
+  writeUint32(0); // Manufacturer
+  writeUint32(0); // Product
+  writeUint32(Math.round(1e9 / sampleRate)); // Sample period (ns)
+  writeUint32(60); // MIDI unity note
+  writeUint32(0); // Pitch fraction
+  writeUint32(0); // SMPTE format
+  writeUint32(0); // SMPTE offset
+  writeUint32(1); // Loop count
+  writeUint32(0); // Sampler data
+  writeUint32(0); // Cue point id
+  writeUint32(0); // Forward loop
+  writeUint32(0); // Loop start
+  writeUint32(frames - 1); // Loop end (inclusive)
+  writeUint32(0); // Fraction
+  writeUint32(0); // Play count (infinite)
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const trackFileName = (frequency: number, seed: number, durationSeconds: number) =>
+  `resonance-garden-${Math.round(frequency)}hz-${Math.round(durationSeconds / 60)}min-${seed}.wav`;
@@ -0,0 +1,152 @@
+import { LayerId, MixerChannelId, StoredUserLayer, UserLayer, UserLayerId, Vec3 } from '../types';
+import { SoundEntry } from './SoundLibrary';
+
+// Layers made from the listener's own recordings. An imported file is
+// decoded, trimmed of leading and trailing silence, shortened if needed and
+// cut into a loop whose end crossfades into its start, so it can repeat
+// without a click. The result is stored with the layer (see ProfileStore).
+
+export const MAX_USER_LAYERS = 6;
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+const MIN_LAYER_SECONDS = 2;
+const MAX_LAYER_SECONDS = 60;
+const LOOP_CROSSFADE_SECONDS = 1.5;
+// Anything quieter than this (about -50 dBFS) counts as silence when trimming
+const SILENCE_THRESHOLD = 0.003;
+
+export class UserLayerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserLayerError';
+  }
+}
+
+export const isUserLayerId = (id: MixerChannelId): id is UserLayerId => id.startsWith('user-');
+
+const createUserLayerId = (): UserLayerId =>
+  `user-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+// Markers stand on a ring outside the built-in layers, spread by the
+// golden angle so they don't bunch up however many there are
+export const userLayerPosition = (index: number): Vec3 => {
+  const angle = 0.6 + index * 2.39996;
+  return [Math.sin(angle) * 8, 1.2 + (index % 3) * 0.8, Math.cos(angle) * 8 - 1];
+};
+
+// First ring slot no existing layer stands on. Slots free up when layers
+// are removed, so counting the layers could land on an occupied one.
+const freeRingIndex = (existing: UserLayer[]): number => {
+  const taken = (index: number) => {
+    const slot = userLayerPosition(index);
+    return existing.some(layer => layer.position.every((v, axis) => Math.abs(v - slot[axis]) < 1e-6));
+  };
+  let index = 0;
+  while (taken(index)) index++;
+  return index;
+};
+
+const layerName = (fileName: string) => {
+  const name = fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+  return (name || 'Imported').slice(0, 24);
+};
+
+// First and last frame (exclusive) louder than the silence threshold
+const audibleRange = (channels: Float32Array[]): [number, number] => {
+  const loud = (i: number) => channels.some(data => Math.abs(data[i]) > SILENCE_THRESHOLD);
+  const length = channels[0].length;
+  let start = 0;
+  while (start < length && !loud(start)) start++;
+  let end = length;
+  while (end > start && !loud(end - 1)) end--;
+  return [start, end];
+};
+
+// Equal-power crossfade of the tail into the head. The loop is `fade`
+// frames shorter than the input: its last frame runs on into its first.
+const smoothLoop = (data: Float32Array, fade: number): Float32Array => {
+  const length = data.length - fade;
+  const loop = data.slice(0, length);
+  for (let i = 0; i < fade; i++) {
+    const x = i / fade;
+    loop[i] = data[i] * Math.sqrt(x) + data[length + i] * Math.sqrt(1 - x);
+  }
+  return loop;
+};
+
+// Turns a decoded file into a stored layer. Throws UserLayerError with a
+// message for the listener when the file can't be used.
+export const createUserLayer = (fileName: string, decoded: AudioBuffer, existing: UserLayer[]): StoredUserLayer => {
+  const sampleRate = decoded.sampleRate;
+  const source = Array.from({ length: Math.min(2, decoded.numberOfChannels) }, (_, c) => decoded.getChannelData(c));
+  const [start, end] = audibleRange(source);
+  const fade = Math.round(LOOP_CROSSFADE_SECONDS * sampleRate);
+  const length = Math.min(end - start, Math.round((MAX_LAYER_SECONDS + LOOP_CROSSFADE_SECONDS) * sampleRate));
+  if (length - fade < MIN_LAYER_SECONDS * sampleRate) {
+    throw new UserLayerError(`"${fileName}" has less than ${MIN_LAYER_SECONDS} seconds of sound.`);
+  }
+
+  return {
+    id: createUserLayerId(),
+    name: layerName(fileName),
+    createdAt: Date.now(),
+    position: userLayerPosition(freeRingIndex(existing)),
+    sampleRate,
+    channels: source.map(data => smoothLoop(data.subarray(start, start + length), fade)),
+  };
+};
+
+// Reads and decodes one file with the given decoder (the engine's context)
+export const importAudioFile = async (
+  file: File,
+  decode: (data: ArrayBuffer) => Promise<AudioBuffer>,
+  existing: UserLayer[]
+): Promise<StoredUserLayer> => {
+  if (existing.length >= MAX_USER_LAYERS) {
+    throw new UserLayerError(`The garden has room for ${MAX_USER_LAYERS} imported layers. Remove one first.`);
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new UserLayerError(`"${file.name}" is too large; files up to ${MAX_IMPORT_BYTES / 1024 / 1024} MB can be imported.`);
+  }
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decode(await file.arrayBuffer());
+  } catch (e) {
+    throw new UserLayerError(`"${file.name}" could not be decoded. Try an MP3, WAV, OGG or M4A file.`);
+  }
+  return createUserLayer(file.name, decoded, existing);
+};
+
+export const userLayerBuffer = (layer: StoredUserLayer): AudioBuffer => {
+  const buffer = new AudioBuffer({
+    length: layer.channels[0].length,
+    numberOfChannels: layer.channels.length,
+    sampleRate: layer.sampleRate,
+  });
+  layer.channels.forEach((data, c) => buffer.copyToChannel(data, c));
+  return buffer;
+};
+
+// Imported layers loop and, when shifted, follow the matched frequency
+// gently like the built-in ambiences. The centroid is measured once the
+// audio is loaded (see measureCentroid).
+export const userSoundEntry = (layer: UserLayer): SoundEntry => ({
+  id: layer.id,
+  file: layer.name,
+  centroid: 2000,
+  pitchFollow: 'GENTLE',
+  loop: true,
+  rateJitter: 0,
+  gain: 0.7,
+  fadeIn: 1.0,
+  release: 1.0,
+});
+
+// Just the layer, without its audio
+export const userLayerInfo = ({ id, name, createdAt, position }: StoredUserLayer): UserLayer =>
+  ({ id, name, createdAt, position });
+
+// Ids of layers that can be played here: built-in ones, and imported ones
+// still on this device
+export const isKnownLayer = (id: LayerId, userLayers: UserLayer[]): boolean =>
+  !isUserLayerId(id) || userLayers.some(layer => layer.id === id);
@@ -0,0 +1,10 @@
+// Saves a generated file through the browser's download prompt
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing it
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,65 @@
+// Frequency helpers shared by the tuning UI, header and visuals.
+
+// Full span the matching slider can reach
+export const MIN_MATCH_FREQ = 125;
+export const MAX_MATCH_FREQ = 16000;
+
+export interface FrequencyRange {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+}
+
+export const FREQUENCY_RANGES: FrequencyRange[] = [
+  { id: 'low', label: 'Low', min: 125, max: 1000 },
+  { id: 'mid', label: 'Mid', min: 1000, max: 4500 },
+  { id: 'high', label: 'High', min: 4000, max: 10000 },
+  { id: 'very-high', label: 'Very High', min: 8000, max: 16000 },
+  { id: 'full', label: 'Full', min: MIN_MATCH_FREQ, max: MAX_MATCH_FREQ },
+];
+
+// Fine mode zooms the slider to this many octaves either side of the value
+export const FINE_SPAN_OCTAVES = 1 / 3;
+
+export const clampMatchFrequency = (frequency: number) =>
+  Math.max(MIN_MATCH_FREQ, Math.min(MAX_MATCH_FREQ, frequency));
+
+// The narrowest preset range holding the frequency, falling back to Full
+export const rangeForFrequency = (frequency: number): FrequencyRange =>
+  FREQUENCY_RANGES
+    .filter(range => frequency >= range.min && frequency <= range.max)
+    .sort((a, b) => a.max / a.min - b.max / b.min)[0] ?? FREQUENCY_RANGES[FREQUENCY_RANGES.length - 1];
+
+export const shiftByCents = (frequency: number, cents: number) => frequency * Math.pow(2, cents / 1200);
+
+// Matched values keep 0.1 Hz so single-cent steps survive at low frequencies
+export const roundFrequency = (frequency: number) => Math.round(frequency * 10) / 10;
+
+export const formatFrequency = (frequency: number) =>
+  frequency < 1000 ? `${frequency.toFixed(1)} Hz` : `${Math.round(frequency)} Hz`;
+
+// Compact label for slider ends, e.g. "125Hz", "4.5kHz"
+export const formatFrequencyShort = (frequency: number) =>
+  frequency >= 1000 ? `${+(frequency / 1000).toFixed(1)}kHz` : `${Math.round(frequency)}Hz`;
+
+const NOTE_NAMES = ['C', 'C♯', 'D', 'D♯', 'E', 'F', 'F♯', 'G', 'G♯', 'A', 'A♯', 'B'];
+
+// Nearest equal-tempered note (A4 = 440 Hz) and the offset from it in cents
+export const noteName = (frequency: number) => {
+  const midi = 69 + 12 * Math.log2(frequency / 440);
+  const nearest = Math.round(midi);
+  const cents = Math.round((midi - nearest) * 100);
+  const name = `${NOTE_NAMES[((nearest % 12) + 12) % 12]}${Math.floor(nearest / 12) - 1}`;
+  return { name, cents };
+};
+
+// Visual intensity for shaders: 1.0 at 8 kHz (the old fixed reference),
+// moving half as fast as the frequency in octaves so the full 125 Hz-16 kHz
+// range stays between calm and lively instead of frozen or frantic.
+const VISUAL_REFERENCE_FREQ = 8000;
+
+export const frequencyLevel = (frequency: number) => {
+  const octaves = Math.log2(Math.max(1, frequency) / VISUAL_REFERENCE_FREQ);
+  return Math.max(0.125, Math.min(1.5, Math.pow(2, octaves * 0.5)));
+};
@@ -0,0 +1,26 @@
+// Level helpers shared by the engine and the calibration UI.
+// All "dB" values in the app are dBFS at the output unless stated otherwise.
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const gainToDb = (gain: number) => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+// Matching tone level before the user has done a loudness match
+export const DEFAULT_TONE_DB = -26;
+
+// Calibration steps never go above this, to protect the listener
+export const MAX_CALIBRATION_DB = -10;
+export const MIN_CALIBRATION_DB = -80;
+
+// Nominal RMS of a typical garden mix with the master at 0 dB.
+// Used to place the master level relative to the measured MML.
+export const MIX_REFERENCE_DB = -18;
+
+// Clinically recommended: sit just below the minimum masking level
+const BELOW_MML_DB = 3;
+
+// Master level (dB) that puts the garden just below the user's MML
+export const masterLevelForMml = (mmlDb: number) => {
+  const level = mmlDb - BELOW_MML_DB - MIX_REFERENCE_DB;
+  return Math.max(-40, Math.min(0, level));
+};
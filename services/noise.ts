@@ -0,0 +1,45 @@
+import { Random } from './random';
+
+// Noise buffer generators shared by the engine, matching tones and fallbacks.
+// Pass a seeded `random` for noise that is identical on every render.
+
+// RMS of a full-scale sine, used as the common loudness reference
+export const SINE_RMS = Math.SQRT1_2;
+
+export const createWhiteNoiseBuffer = (ctx: BaseAudioContext, seconds = 2, random: Random = Math.random): AudioBuffer => {
+  const bufferSize = Math.floor(ctx.sampleRate * seconds);
+  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < bufferSize; i++) {
+    data[i] = random() * 2 - 1;
+  }
+  return buffer;
+};
+
+// Paul Kellet's refined pink noise filter over white noise.
+// Scaled to stay roughly within full scale.
+export const createPinkNoiseBuffer = (ctx: BaseAudioContext, seconds = 4, random: Random = Math.random): AudioBuffer => {
+  const bufferSize = Math.floor(ctx.sampleRate * seconds);
+  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < bufferSize; i++) {
+    const white = random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.96900 * b2 + white * 0.1538520;
+    b3 = 0.86650 * b3 + white * 0.3104856;
+    b4 = 0.55000 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.0168980;
+    data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+    b6 = white * 0.115926;
+  }
+  return buffer;
+};
+
+export const bufferRms = (buffer: AudioBuffer): number => {
+  const data = buffer.getChannelData(0);
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / data.length);
+};
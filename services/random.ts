@@ -0,0 +1,34 @@
+// Seeded pseudo-random numbers, so a session, screenshot or exported track
+// can be reproduced exactly from one seed. Same signature as Math.random.
+export type Random = () => number;
+
+// mulberry32: tiny, fast and good enough for audio and visual variation
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Seeds are unsigned 32-bit integers
+export const MAX_SEED = 0xffffffff;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// Each consumer (a visual, the piano, the layers) draws from its own
+// stream, so a change in one doesn't shift the numbers of all the others
+export const deriveSeed = (seed: number, label: string): number => {
+  let hash = 2166136261; // FNV-1a over the label, then the seed
+  for (let i = 0; i < label.length; i++) hash = Math.imul(hash ^ label.charCodeAt(i), 16777619);
+  hash = Math.imul(hash ^ (seed >>> 0), 16777619);
+  hash ^= hash >>> 15;
+  hash = Math.imul(hash, 0x2c1b3c6d);
+  hash ^= hash >>> 12;
+  return hash >>> 0;
+};
+
+export const randomFor = (seed: number, label: string): Random => createRandom(deriveSeed(seed, label));
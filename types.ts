@@ -6,6 +6,9 @@ export enum AppMode {
   GARDEN = 'GARDEN'
 }
 
+// Steps within AppMode.TUNING
+export type TuningStep = 'PITCH' | 'OCTAVE' | 'LOUDNESS' | 'MML';
+
 export interface AudioState {
   frequency: number; // Hz
   gain: number; // 0-1
@@ -14,6 +17,178 @@ export interface AudioState {
 
 export type InteractionType = 'BIRD' | 'WIND' | 'LEAVES' | 'WATER' | 'RAIN' | 'INSECT';
 
+// Layers imported from the listener's own audio files
+export type UserLayerId = `user-${string}`;
+
+// Any interactive layer: one of the built-in six or an imported one
+export type LayerId = InteractionType | UserLayerId;
+
+// Mixer channels: one per interaction layer plus the harmony voices
+export type MixerChannelId = LayerId | 'DRONE' | 'PIANO';
+
+export interface ChannelSettings {
+  gain: number; // 0-1.5 fader level
+  muted: boolean;
+  solo: boolean;
+  pan: number; // -1 (left) to 1 (right)
+  send: number; // 0-1, level sent to the garden's reverb
+}
+
+// Imported layers may be missing; they start at the default strip settings
+export type MixerSettings = Record<MixerChannelId, ChannelSettings>;
+
+// Ducking matrix: while `source` is playing, `target` is attenuated.
+// 'ANY' means any other active garden layer (not the drone or piano).
+export type DuckingSource = MixerChannelId | 'ANY';
+
+export interface DuckingRule {
+  id: string;
+  source: DuckingSource;
+  target: MixerChannelId;
+  amount: number; // dB of attenuation
+  attack: number; // seconds to reach the ducked level
+  release: number; // seconds to recover once the source stops
+}
+
+// How a layer treats the matched frequency: SHIFT transposes it towards
+// it, EMPHASIS keeps its pitch but lifts its energy around it, NATURAL
+// plays it untouched. See services/PitchPolicy.
+export type PitchPolicy = 'SHIFT' | 'EMPHASIS' | 'NATURAL';
+
+// Per layer; layers not listed use their default (see policyFor)
+export type PitchPolicies = Partial<Record<LayerId, PitchPolicy>>;
+
+// Scale the generative piano plays in. Its tonic comes from the matched
+// frequency; see services/Piano.
+export type PianoMode = 'MAJOR_PENTATONIC' | 'MINOR_PENTATONIC' | 'DORIAN' | 'AEOLIAN' | 'LYDIAN' | 'MIXOLYDIAN';
+
+export interface PianoSettings {
+  mode: PianoMode;
+  tempo: number; // Beats per minute
+  pedal: boolean; // Sustain pedal held through each phrase
+}
+
+// Chord and instrument of the harmony drone; see services/Drone
+export type DroneVoicing = 'FIFTH' | 'OPEN_FIFTH' | 'MINOR_TRIAD';
+export type DroneTimbre = 'CELLO' | 'ORGAN' | 'CHOIR';
+
+export interface DroneSettings {
+  followMatch: boolean; // Root from the matched frequency rather than G2
+  voicing: DroneVoicing;
+  timbre: DroneTimbre;
+  level: number; // 0-1
+  brightness: number; // 0-1
+}
+
+// Acoustic space of the shared reverb; see services/Reverb
+export type GardenSpace = 'FOREST_CLEARING' | 'STONE_PAVILION' | 'OPEN_LAKE';
+
+// Soundscape preset. Built-in presets list sounds, a space and sometimes a
+// ducking matrix; saved ones capture all of those plus levels, harmony and
+// pitch policies. Unset fields are left alone.
+export interface Preset {
+  id: string;
+  name: string;
+  sounds: LayerId[];
+  volumes?: Partial<Record<MixerChannelId, number>>; // Fader gains of the captured channels
+  droneActive?: boolean;
+  pianoActive?: boolean;
+  pitchPolicies?: PitchPolicies; // Merged into the current policies when applied
+  space?: GardenSpace;
+  duckingRules?: DuckingRule[]; // Replaces the current matrix when applied
+  seed?: number; // Generative seed, restored with the preset
+}
+
+// Per-ear tinnitus match
+export type Ear = 'left' | 'right';
+
+export interface EarMatch {
+  frequency: number; // Hz
+  affected: boolean; // false when this ear has no ringing
+  confidence: number | null; // 0-1 from the octave check, null if not verified
+}
+
+export type EarMatches = Record<Ear, EarMatch>;
+
+// Width of the therapy notch, in octaves
+export type NotchWidth = 0.5 | 1;
+
+// Character of the matched sound: tinnitus isn't always a pure tone
+export type ToneType = 'PURE' | 'NARROWBAND' | 'WHITE' | 'PINK' | 'CLUSTER';
+
+export interface ToneCharacter {
+  type: ToneType;
+  bandwidth: number; // octaves, used by NARROWBAND and CLUSTER
+}
+
+export type Vec3 = [number, number, number];
+
+// --- Profiles ---
+
+// One confirmed pass through the tuning flow
+export interface FrequencyHistoryEntry {
+  date: number; // ms since epoch
+  ears: EarMatches;
+  loudnessDb: number | null;
+  mmlDb: number | null;
+}
+
+// What was playing when the profile was last used
+export interface ProfileMix {
+  sounds: LayerId[];
+  droneActive: boolean;
+  pianoActive: boolean;
+  mixer: MixerSettings;
+}
+
+export interface ProfilePreferences {
+  masterLevelDb: number;
+  notchActive: boolean;
+  notchWidth: NotchWidth;
+  spatialAudio: boolean;
+  pitchPolicies: PitchPolicies;
+  piano: PianoSettings;
+  drone: DroneSettings;
+  space: GardenSpace;
+  outputCeilingDb: number; // Limiter ceiling, dBFS
+  normaliseLoudness: boolean;
+  sessionFadeSeconds: number;
+  sleepMode: boolean;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  ears: EarMatches; // Last confirmed match
+  confirmed: boolean; // True once the tuning flow has been completed
+  toneCharacter: ToneCharacter;
+  loudnessDb: number | null;
+  mmlDb: number | null;
+  history: FrequencyHistoryEntry[]; // Oldest first
+  lastMix: ProfileMix;
+  preferences: ProfilePreferences;
+}
+
+// --- Imported layers ---
+
+// A sound imported from one of the listener's own files. Shared by every
+// profile on this device.
+export interface UserLayer {
+  id: UserLayerId;
+  name: string; // From the file name
+  createdAt: number;
+  position: Vec3; // Where its marker stands in the garden
+}
+
+// What is kept in IndexedDB: the layer plus its audio, already trimmed
+// and cut into a seamless loop
+export interface StoredUserLayer extends UserLayer {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
 export interface SoundObjectProps {
   position: [number, number, number];
   color: string;